@@ -1,44 +1,87 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { TimerMode, UserStats, AppSettings, AmbientSoundType } from './types';
-import { getStats, saveStats, getSettings, saveSettings, getDateKey } from './utils/storage';
-import { playNotification, startAmbientSound, stopAmbientSound, updateAmbientVolume } from './utils/audio';
+import { AlertSound, InterruptionSource, SessionRecord, TimerMode, UserStats, AppSettings, TimerState, Task, TaskList as TaskListState, ShortcutAction } from './types';
+import { AppData, saveStats, saveSettings, getDateKey, getStorageAdapter, saveTimerState, saveTasks, setIssueReporter } from './utils/storage';
+import { addDays, formatMinutes, parseDateKey } from './utils/date';
+import { createSessionRecord, getDailyCounts, getFocusOutcomes, getWeekSessions, refreshStats } from './utils/sessions';
+import { HistoryChange, invertHistoryChange } from './utils/history';
+import { applyStatsChange, StatsChange } from './utils/statsChanges';
+import { getTaskBreakdown } from './utils/tasks';
+import { useTabSync } from './utils/tabSync';
+import { createIdleTimer, explainPause, formatTimerDisplay, getElapsedSeconds, getFlowtimeBreakSeconds, getModeDuration, getNextPhase, getOvertimeSeconds, getPausesLeft, getRemainingSeconds, getUnexplainedPause, isOpenEnded, isStrictSession, logInterruption, MODE_LABELS, pauseTimer, shouldAutoStart, startTimer } from './utils/timer';
+import { playAlert, setAmbientLayers, setAmbientLevel, startAmbientSound, startTicking, stopAmbientSound, stopTicking, updateAmbientVolume } from './utils/audio';
+import { getAmbientLevel } from './utils/ambient';
+import { getDailyInterruptions, INTERRUPTION_SOURCE_LABELS, summarizeInterruptions } from './utils/interruptions';
+import TaskList from './components/TaskList';
+import DataTransfer from './components/DataTransfer';
+import ActivityHeatmap from './components/ActivityHeatmap';
+import DayDetail from './components/DayDetail';
+import InsightReport from './components/InsightReport';
+import GoalsPanel from './components/GoalsPanel';
+import ProfileManager from './components/ProfileManager';
+import AmbientMixer from './components/AmbientMixer';
+import AlertSettings from './components/AlertSettings';
+import { applyProfile, syncActiveProfile } from './utils/profiles';
+import { BackupFile, restoreBackup, RestoreStrategy } from './utils/backup';
+import CommandPalette, { Command } from './components/CommandPalette';
+import ShortcutSettings from './components/ShortcutSettings';
+import { eventToShortcut, findShortcutAction, isTypingTarget, SHORTCUT_LABELS } from './utils/shortcuts';
+import { isNotificationActionMessage, isNotificationSupported, NotificationActionMessage, requestNotificationPermission, showPhaseNotification } from './utils/notifications';
+import { drawProgressFavicon, getTabTitle } from './utils/tabStatus';
+import { applyUpdate, useUpdateAvailable } from './utils/serviceWorker';
+import UpdatePrompt from './components/UpdatePrompt';
+import UndoToast from './components/UndoToast';
+import StrictModeDialog from './components/StrictModeDialog';
+import StorageError from './components/StorageError';
+import ReflectionPrompt from './components/ReflectionPrompt';
+import ReflectionLog from './components/ReflectionLog';
 
 // --- Components ---
 
-const StatsDashboard: React.FC<{ stats: UserStats }> = ({ stats }) => {
+const StatsDashboard: React.FC<{
+  stats: UserStats;
+  tasks: Task[];
+  weekStartsOn: number;
+  onChangeHistory: (change: HistoryChange) => void;
+}> = ({ stats, tasks, weekStartsOn, onChangeHistory }) => {
   const [isCollapsed, setIsCollapsed] = useState(true);
-
-  const formatMinutes = (m: number) => {
-    const hours = Math.floor(m / 60);
-    const mins = m % 60;
-    return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
-  };
+  // How many weeks the 7-day strip has been scrolled back
+  const [weekOffset, setWeekOffset] = useState(0);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
 
   // Determine today's date key once for comparison
   const today = new Date();
   const todayStr = getDateKey(today);
+  const dailyCounts = getDailyCounts(stats);
+  const weekSessions = getWeekSessions(stats, today);
+  const breakdown = getTaskBreakdown(weekSessions, tasks);
+  const interruptions = summarizeInterruptions(weekSessions);
+  const outcomes = getFocusOutcomes(weekSessions);
+  const allTimeOutcomes = getFocusOutcomes(stats.sessions);
+  const dailyInterruptions = getDailyInterruptions(stats.sessions);
+  const stripEnd = addDays(today, -7 * weekOffset);
 
-  // Prepare chart data for the last 7 days (including today as the final entry)
+  // Prepare chart data for 7 days ending at stripEnd (today when not scrolled back)
   const chartData = Array.from({ length: 7 }, (_, i) => {
-    const d = new Date(today);
-    d.setDate(today.getDate() - (6 - i));
+    const d = addDays(stripEnd, -(6 - i));
     const dateStr = getDateKey(d);
     
-    // Look up count: either from today's live state or from historical archive
-    const count = dateStr === todayStr 
-      ? stats.todaySessions 
-      : (stats.history[dateStr] || 0);
-      
+    const count = dailyCounts[dateStr] || 0;
+
     return {
       day: d.toLocaleDateString('en-US', { weekday: 'short' }),
+      dateStr,
       count,
+      interruptions: dailyInterruptions[dateStr] || 0,
       isToday: dateStr === todayStr
     };
   });
+  const stripLabel = weekOffset === 0
+    ? '7 Days'
+    : `${addDays(stripEnd, -6).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${stripEnd.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
 
   return (
-    <div className="w-full max-w-2xl bg-white dark:bg-slate-900 rounded-3xl overflow-hidden shadow-sm border border-slate-100 dark:border-slate-800 animate-in fade-in slide-in-from-bottom-8 duration-700">
+    <div className="w-full max-w-2xl bg-white dark:bg-slate-900 rounded-3xl overflow-hidden shadow-xs border border-slate-100 dark:border-slate-800 animate-in fade-in slide-in-from-bottom-8 duration-700">
       <button 
         onClick={() => setIsCollapsed(!isCollapsed)}
         className="w-full px-8 py-6 flex items-center justify-between hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors"
@@ -70,9 +113,66 @@ const StatsDashboard: React.FC<{ stats: UserStats }> = ({ stats }) => {
             </div>
           </div>
 
+          {interruptions.sessions > 0 && (
+            <div className="bg-slate-50 dark:bg-slate-800/50 p-5 rounded-2xl border border-slate-100 dark:border-slate-800">
+              <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-4 block">Interruptions (Week)</span>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <span className="text-2xl font-bold tabular-nums text-slate-800 dark:text-white block">{interruptions.perSession.toFixed(1)}</span>
+                  <span className="text-xs text-slate-400">per session</span>
+                </div>
+                <div>
+                  <span className="text-2xl font-bold tabular-nums text-slate-800 dark:text-white block">{Math.round(interruptions.uninterruptedShare * 100)}%</span>
+                  <span className="text-xs text-slate-400">finished uninterrupted</span>
+                </div>
+                <div>
+                  <span className="text-2xl font-bold tabular-nums text-slate-800 dark:text-white block">{interruptions.internal} / {interruptions.external}</span>
+                  <span className="text-xs text-slate-400">internal / external</span>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {outcomes.completed + outcomes.abandoned > 0 && (
+            <div className="bg-slate-50 dark:bg-slate-800/50 p-5 rounded-2xl border border-slate-100 dark:border-slate-800">
+              <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-4 block">Focus Sessions (Week)</span>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <span className="text-2xl font-bold tabular-nums text-slate-800 dark:text-white block">{outcomes.completed}</span>
+                  <span className="text-xs text-slate-400">completed</span>
+                </div>
+                <div>
+                  <span className="text-2xl font-bold tabular-nums text-slate-800 dark:text-white block">{outcomes.abandoned}</span>
+                  <span className="text-xs text-slate-400">abandoned</span>
+                </div>
+                <div>
+                  <span className="text-2xl font-bold tabular-nums text-slate-800 dark:text-white block">{Math.round(outcomes.abandonRate * 100)}%</span>
+                  <span className="text-xs text-slate-400">abandon rate ({Math.round(allTimeOutcomes.abandonRate * 100)}% all time)</span>
+                </div>
+              </div>
+            </div>
+          )}
+
           <div className="bg-slate-50 dark:bg-slate-800/50 p-6 rounded-2xl border border-slate-100 dark:border-slate-800">
             <div className="flex justify-between items-center mb-6">
-              <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Activity History (7 Days)</span>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setWeekOffset(weekOffset + 1)}
+                  className="p-1 rounded-lg text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+                  title="Previous week"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="m15 18-6-6 6-6"/></svg>
+                </button>
+                <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Activity History ({stripLabel})</span>
+                <button
+                  onClick={() => setWeekOffset(Math.max(0, weekOffset - 1))}
+                  disabled={weekOffset === 0}
+                  className="p-1 rounded-lg text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors disabled:opacity-30"
+                  title="Next week"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="m9 18 6-6-6-6"/></svg>
+                </button>
+              </div>
               <div className="flex flex-col items-end gap-1 text-right">
                 <span className="text-[10px] font-bold text-rose-500 uppercase tracking-wider">Current Streak: {stats.currentStreak} days</span>
                 <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Longest: {stats.longestStreak} days</span>
@@ -80,9 +180,11 @@ const StatsDashboard: React.FC<{ stats: UserStats }> = ({ stats }) => {
             </div>
             
             <div className="grid grid-cols-7 gap-2">
-              {chartData.map((d, i) => (
-                <div key={i} className="flex flex-col items-center gap-2">
+              {chartData.map((d) => (
+                <button key={d.dateStr} onClick={() => setSelectedDate(d.dateStr)} className="flex flex-col items-center gap-2">
                   <div className={`w-full aspect-square flex flex-col items-center justify-center rounded-2xl text-sm font-bold transition-all relative ${
+                    selectedDate === d.dateStr ? 'ring-2 ring-slate-800 dark:ring-white ' : ''
+                  }${
                     d.isToday 
                       ? 'bg-rose-500 text-white shadow-lg shadow-rose-500/20' 
                       : d.count > 0 
@@ -90,14 +192,52 @@ const StatsDashboard: React.FC<{ stats: UserStats }> = ({ stats }) => {
                         : 'bg-slate-100 dark:bg-slate-800/50 text-slate-400 dark:text-slate-600'
                   }`}>
                     <span className="text-lg">{d.count}</span>
+                    {d.interruptions > 0 && (
+                      <span className="absolute top-1 right-1.5 text-[9px] font-bold tabular-nums opacity-70" title={`${d.interruptions} interruptions`}>
+                        {d.interruptions}!
+                      </span>
+                    )}
                   </div>
                   <span className={`text-[10px] font-bold uppercase tracking-tighter ${d.isToday ? 'text-rose-500' : 'text-slate-400'}`}>
                     {d.day}
                   </span>
-                </div>
+                </button>
               ))}
             </div>
           </div>
+
+          <ActivityHeatmap stats={stats} weekStartsOn={weekStartsOn} selectedDate={selectedDate} onSelectDate={setSelectedDate} />
+
+          {selectedDate && (
+            <DayDetail stats={stats} tasks={tasks} dateKey={selectedDate} onClose={() => setSelectedDate(null)} onChange={onChangeHistory} />
+          )}
+
+          <InsightReport stats={stats} weekStartsOn={weekStartsOn} />
+
+          <ReflectionLog stats={stats} tasks={tasks} weekStartsOn={weekStartsOn} />
+
+          {breakdown.byTask.length > 0 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {([['By Project (Week)', breakdown.byProject], ['By Task (Week)', breakdown.byTask]] as const).map(([label, rows]) => (
+                <div key={label} className="bg-slate-50 dark:bg-slate-800/50 p-5 rounded-2xl border border-slate-100 dark:border-slate-800">
+                  <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-4 block">{label}</span>
+                  <ul className="space-y-3">
+                    {rows.map((row) => (
+                      <li key={row.key} className="space-y-1">
+                        <div className="flex justify-between items-center gap-2 text-sm">
+                          <span className="font-semibold text-slate-700 dark:text-slate-200 truncate">{row.label}</span>
+                          <span className="text-xs font-bold tabular-nums text-slate-400 shrink-0">{row.sessions} · {formatMinutes(row.minutes)}</span>
+                        </div>
+                        <div className="w-full h-1.5 bg-slate-200 dark:bg-slate-800 rounded-full overflow-hidden">
+                          <div className="h-full bg-rose-500" style={{ width: `${(row.minutes / Math.max(1, rows[0].minutes)) * 100}%` }} />
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -107,15 +247,30 @@ const StatsDashboard: React.FC<{ stats: UserStats }> = ({ stats }) => {
 const SettingsModal: React.FC<{
   isOpen: boolean;
   settings: AppSettings;
+  stats: UserStats;
+  taskList: TaskListState;
   onClose: () => void;
   onSave: (newSettings: AppSettings) => void;
-}> = ({ isOpen, settings, onClose, onSave }) => {
+  onRestore: (backup: BackupFile, strategy: RestoreStrategy) => void;
+}> = ({ isOpen, settings, stats, taskList, onClose, onSave, onRestore }) => {
   const [localSettings, setLocalSettings] = useState(settings);
+  const [notificationsBlocked, setNotificationsBlocked] = useState(false);
 
   useEffect(() => {
     if (isOpen) setLocalSettings(settings);
   }, [isOpen, settings]);
 
+  // Permission is asked for when the option is switched on, while we still have the click
+  const toggleSystemNotifications = async () => {
+    if (localSettings.systemNotifications) {
+      setLocalSettings({ ...localSettings, systemNotifications: false });
+      return;
+    }
+    const granted = await requestNotificationPermission();
+    setNotificationsBlocked(!granted);
+    setLocalSettings((prev) => ({ ...prev, systemNotifications: granted }));
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -135,6 +290,8 @@ const SettingsModal: React.FC<{
         </div>
 
         <div className="space-y-6 mb-10 overflow-y-auto max-h-[60vh] px-1">
+          <ProfileManager settings={localSettings} onChange={setLocalSettings} />
+
           <div className="space-y-3">
             <div className="flex justify-between items-center">
               <label className="text-sm font-semibold text-slate-500 uppercase tracking-wider">Focus Duration</label>
@@ -161,27 +318,177 @@ const SettingsModal: React.FC<{
             />
           </div>
 
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <label className="text-sm font-semibold text-slate-500 uppercase tracking-wider">Long Break Duration</label>
+              <span className="text-indigo-500 font-bold">{localSettings.longBreakDuration} min</span>
+            </div>
+            <input 
+              type="range" min="5" max="60" 
+              value={localSettings.longBreakDuration} 
+              onChange={(e) => setLocalSettings({...localSettings, longBreakDuration: parseInt(e.target.value)})}
+              className="w-full accent-indigo-500 h-2 bg-slate-100 dark:bg-slate-800 rounded-lg appearance-none cursor-pointer"
+            />
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <label className="text-sm font-semibold text-slate-500 uppercase tracking-wider">Long Break Every</label>
+              <span className="text-indigo-500 font-bold">{localSettings.longBreakInterval} sessions</span>
+            </div>
+            <input 
+              type="range" min="2" max="8" 
+              value={localSettings.longBreakInterval} 
+              onChange={(e) => setLocalSettings({...localSettings, longBreakInterval: parseInt(e.target.value)})}
+              className="w-full accent-indigo-500 h-2 bg-slate-100 dark:bg-slate-800 rounded-lg appearance-none cursor-pointer"
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            {([['autoStartBreaks', 'Auto-start Breaks'], ['autoStartFocus', 'Auto-start Focus'], ['askForReflection', 'Reflect after focus']] as const).map(([key, label]) => (
+              <button
+                key={key}
+                onClick={() => setLocalSettings({ ...localSettings, [key]: !localSettings[key] })}
+                className={`py-2 px-3 rounded-xl text-xs font-bold transition-all ${
+                  localSettings[key]
+                  ? 'bg-rose-500 text-white shadow-lg shadow-rose-500/20' 
+                  : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
           <div className="border-t border-slate-100 dark:border-slate-800 pt-6 space-y-4">
-            <label className="text-sm font-semibold text-slate-500 uppercase tracking-wider block">Ambient Sound</label>
-            <div className="grid grid-cols-3 gap-2">
-              {(['rain', 'cafe', 'white'] as AmbientSoundType[]).map((type) => (
+            <label className="text-sm font-semibold text-slate-500 uppercase tracking-wider block">Overtime & Flowtime</label>
+            <div className="grid grid-cols-2 gap-2">
+              {([['focusOvertime', 'Keep counting past zero'], ['flowtime', 'Flowtime stopwatch']] as const).map(([key, label]) => (
                 <button
-                  key={type}
-                  onClick={() => setLocalSettings({ ...localSettings, ambientSoundType: type })}
-                  className={`py-2 px-3 rounded-xl text-xs font-bold capitalize transition-all ${
-                    localSettings.ambientSoundType === type 
+                  key={key}
+                  onClick={() => setLocalSettings({ ...localSettings, [key]: !localSettings[key] })}
+                  className={`py-2 px-3 rounded-xl text-xs font-bold transition-all ${
+                    localSettings[key]
                     ? 'bg-rose-500 text-white shadow-lg shadow-rose-500/20' 
                     : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'
                   }`}
                 >
-                  {type}
+                  {label}
                 </button>
               ))}
             </div>
+            {localSettings.flowtime && (
+              <div className="space-y-3">
+                <div className="flex justify-between items-center">
+                  <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Break Length</span>
+                  <span className="text-xs font-bold text-slate-500">1/{localSettings.flowtimeBreakRatio} of focus time</span>
+                </div>
+                <input 
+                  type="range" min="2" max="10" 
+                  value={localSettings.flowtimeBreakRatio} 
+                  onChange={(e) => setLocalSettings({...localSettings, flowtimeBreakRatio: parseInt(e.target.value)})}
+                  className="w-full accent-slate-400 h-2 bg-slate-100 dark:bg-slate-800 rounded-lg appearance-none cursor-pointer"
+                />
+                <p className="text-[10px] text-slate-400">Focus counts up until you finish it. The focus length above only paces the progress ring.</p>
+              </div>
+            )}
+          </div>
+
+          <div className="border-t border-slate-100 dark:border-slate-800 pt-6 space-y-4">
+            <label className="text-sm font-semibold text-slate-500 uppercase tracking-wider block">Strict Mode</label>
+            <button
+              onClick={() => setLocalSettings({ ...localSettings, strictMode: !localSettings.strictMode })}
+              className={`w-full py-2 px-3 rounded-xl text-xs font-bold transition-all ${
+                localSettings.strictMode
+                ? 'bg-rose-500 text-white shadow-lg shadow-rose-500/20' 
+                : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'
+              }`}
+            >
+              Confirm before pausing or leaving focus
+            </button>
+            {localSettings.strictMode && (
+              <div className="space-y-3">
+                <div className="flex justify-between items-center">
+                  <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Pauses per Session</span>
+                  <span className="text-xs font-bold text-slate-500">{localSettings.strictMaxPauses === 0 ? 'None' : localSettings.strictMaxPauses}</span>
+                </div>
+                <input 
+                  type="range" min="0" max="5" 
+                  value={localSettings.strictMaxPauses} 
+                  onChange={(e) => setLocalSettings({...localSettings, strictMaxPauses: parseInt(e.target.value)})}
+                  className="w-full accent-slate-400 h-2 bg-slate-100 dark:bg-slate-800 rounded-lg appearance-none cursor-pointer"
+                />
+                <p className="text-[10px] text-slate-400">Focus sessions left before their planned time are logged as abandoned.</p>
+              </div>
+            )}
+          </div>
+
+          <div className="border-t border-slate-100 dark:border-slate-800 pt-6 space-y-4">
+            <label className="text-sm font-semibold text-slate-500 uppercase tracking-wider block">Weeks & Streaks</label>
+            <div className="grid grid-cols-2 gap-2">
+              {([[1, 'Week starts Monday'], [0, 'Week starts Sunday']] as const).map(([day, label]) => (
+                <button
+                  key={day}
+                  onClick={() => setLocalSettings({ ...localSettings, weekStartsOn: day })}
+                  className={`py-2 px-3 rounded-xl text-xs font-bold transition-all ${
+                    localSettings.weekStartsOn === day
+                    ? 'bg-rose-500 text-white shadow-lg shadow-rose-500/20' 
+                    : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => setLocalSettings({ ...localSettings, streakRequiresGoal: !localSettings.streakRequiresGoal })}
+              className={`w-full py-2 px-3 rounded-xl text-xs font-bold transition-all ${
+                localSettings.streakRequiresGoal
+                ? 'bg-rose-500 text-white shadow-lg shadow-rose-500/20' 
+                : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'
+              }`}
+            >
+              Streak counts only days meeting their daily goal
+            </button>
+            <div className="space-y-3">
+              <div className="flex justify-between items-center">
+                <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Streak Freezes / Month</span>
+                <span className="text-xs font-bold text-slate-500">{localSettings.streakFreezesPerMonth}</span>
+              </div>
+              <input 
+                type="range" min="0" max="4" 
+                value={localSettings.streakFreezesPerMonth} 
+                onChange={(e) => setLocalSettings({...localSettings, streakFreezesPerMonth: parseInt(e.target.value)})}
+                className="w-full accent-slate-400 h-2 bg-slate-100 dark:bg-slate-800 rounded-lg appearance-none cursor-pointer"
+              />
+            </div>
+          </div>
+
+          <div className="border-t border-slate-100 dark:border-slate-800 pt-6 space-y-4">
+            <label className="text-sm font-semibold text-slate-500 uppercase tracking-wider block">Notifications</label>
+            <button
+              onClick={toggleSystemNotifications}
+              disabled={!isNotificationSupported()}
+              className={`w-full py-2 px-3 rounded-xl text-xs font-bold transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+                localSettings.systemNotifications
+                ? 'bg-rose-500 text-white shadow-lg shadow-rose-500/20' 
+                : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'
+              }`}
+            >
+              System notification when a session ends
+            </button>
+            {notificationsBlocked && (
+              <p className="text-[10px] text-rose-500">Notifications are blocked for this site. Allow them in your browser's site settings first.</p>
+            )}
+          </div>
+
+          <div className="border-t border-slate-100 dark:border-slate-800 pt-6 space-y-4">
+            <label className="text-sm font-semibold text-slate-500 uppercase tracking-wider block">Ambient Sound</label>
+            <AmbientMixer settings={localSettings} onChange={setLocalSettings} />
             
             <div className="space-y-3">
               <div className="flex justify-between items-center">
-                <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Volume</span>
+                <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Master Volume</span>
                 <span className="text-xs font-bold text-slate-500">{Math.round(localSettings.ambientVolume * 100)}%</span>
               </div>
               <input 
@@ -191,12 +498,47 @@ const SettingsModal: React.FC<{
                 className="w-full accent-slate-400 h-2 bg-slate-100 dark:bg-slate-800 rounded-lg appearance-none cursor-pointer"
               />
             </div>
+
+            <div className="space-y-2">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-widest block">During Breaks</span>
+              <div className="grid grid-cols-3 gap-2">
+                {([['play', 'Keep playing'], ['duck', 'Lower'], ['mute', 'Fade out']] as const).map(([value, label]) => (
+                  <button
+                    key={value}
+                    onClick={() => setLocalSettings({ ...localSettings, ambientDuringBreaks: value })}
+                    className={`py-2 px-3 rounded-xl text-xs font-bold transition-all ${
+                      localSettings.ambientDuringBreaks === value
+                      ? 'bg-rose-500 text-white shadow-lg shadow-rose-500/20' 
+                      : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <button
+              onClick={() => setLocalSettings({ ...localSettings, ambientStopsOnPause: !localSettings.ambientStopsOnPause })}
+              className={`w-full py-2 px-3 rounded-xl text-xs font-bold transition-all ${
+                localSettings.ambientStopsOnPause
+                ? 'bg-rose-500 text-white shadow-lg shadow-rose-500/20' 
+                : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'
+              }`}
+            >
+              Stop ambient sound while the timer is paused
+            </button>
           </div>
+
+          <AlertSettings settings={localSettings} onChange={setLocalSettings} />
+
+          <ShortcutSettings shortcuts={localSettings.shortcuts} onChange={(shortcuts) => setLocalSettings({ ...localSettings, shortcuts })} />
+
+          <DataTransfer stats={stats} settings={settings} taskList={taskList} onRestore={onRestore} />
         </div>
 
         <button
           onClick={() => {
-            onSave(localSettings);
+            onSave(syncActiveProfile(localSettings));
             onClose();
           }}
           className="w-full py-4 bg-rose-500 hover:bg-rose-600 text-white font-bold rounded-2xl shadow-lg shadow-rose-500/30 transition-all active:scale-[0.98]"
@@ -210,10 +552,11 @@ const SettingsModal: React.FC<{
 
 const Header: React.FC<{
   settings: AppSettings;
-  setSettings: (s: AppSettings) => void;
+  onToggleAmbient: () => void;
+  onToggleDarkMode: () => void;
   onOpenSettings: () => void;
   isHidden?: boolean;
-}> = ({ settings, setSettings, onOpenSettings, isHidden }) => {
+}> = ({ settings, onToggleAmbient, onToggleDarkMode, onOpenSettings, isHidden }) => {
   if (isHidden) return null;
 
   return (
@@ -224,12 +567,7 @@ const Header: React.FC<{
       </h1>
       <div className="flex gap-3">
         <button
-          onClick={() => {
-            const newActive = !settings.ambientSound;
-            setSettings({ ...settings, ambientSound: newActive });
-            if (newActive) startAmbientSound(settings.ambientSoundType, settings.ambientVolume);
-            else stopAmbientSound();
-          }}
+          onClick={onToggleAmbient}
           title="Toggle Ambient Sound"
           className={`p-2 rounded-full transition-all hover:scale-110 ${
             settings.ambientSound ? 'bg-rose-100 text-rose-600 dark:bg-rose-900/40 dark:text-rose-400' : 'bg-slate-200 dark:bg-slate-800 text-slate-500'
@@ -242,7 +580,7 @@ const Header: React.FC<{
           )}
         </button>
         <button
-          onClick={() => setSettings({ ...settings, darkMode: !settings.darkMode })}
+          onClick={onToggleDarkMode}
           title="Toggle Dark Mode"
           className="p-2 rounded-full bg-slate-200 dark:bg-slate-800 text-slate-500 transition-all hover:scale-110"
         >
@@ -266,24 +604,34 @@ const Header: React.FC<{
 
 const Timer: React.FC<{
   mode: TimerMode;
+  cycleCount: number;
+  canSwitchProfile: boolean;
+  onSwitchProfile: (profileId: string) => void;
   timeLeft: number;
+  plannedSeconds: number;
+  overtimeSeconds: number;
   isActive: boolean;
   isFocusMode: boolean;
   settings: AppSettings;
   onToggle: () => void;
+  onFinish?: () => void; // only offered while an open-ended focus session is underway
   onReset: () => void;
   onSwitchMode: (m: TimerMode) => void;
   onToggleFocusMode: () => void;
   onToggleFullscreen: () => void;
-}> = ({ mode, timeLeft, isActive, isFocusMode, settings, onToggle, onReset, onSwitchMode, onToggleFocusMode, onToggleFullscreen }) => {
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-  };
-
-  const totalTime = (mode === 'focus' ? settings.focusDuration : settings.breakDuration) * 60;
-  const progress = ((totalTime - timeLeft) / totalTime) * 100;
+  interruptionCount: number;
+  onLogDistraction?: () => void; // only offered during a started focus session
+  isAskingPauseReason: boolean;
+  onExplainPause: (source: InterruptionSource) => void;
+  pausesLeft: number | null; // only set during a strict focus session
+}> = ({ mode, cycleCount, canSwitchProfile, onSwitchProfile, timeLeft, plannedSeconds, overtimeSeconds, isActive, isFocusMode, settings, onToggle, onFinish, onReset, onSwitchMode, onToggleFocusMode, onToggleFullscreen, interruptionCount, onLogDistraction, isAskingPauseReason, onExplainPause, pausesLeft }) => {
+  const cyclePosition = mode === 'focus' ? cycleCount + 1 : mode === 'break' ? cycleCount : settings.longBreakInterval;
+  const cycleSession = Math.max(1, Math.min(cyclePosition, settings.longBreakInterval));
+  // Flowtime has no end, so the ring fills over the usual focus length as a guide
+  const progress = plannedSeconds > 0
+    ? ((plannedSeconds - timeLeft) / plannedSeconds) * 100
+    : Math.min(100, (overtimeSeconds / (settings.focusDuration * 60)) * 100);
+  const phaseLabel = plannedSeconds === 0 && mode === 'focus' ? 'Flowtime' : overtimeSeconds > 0 ? 'Overtime' : MODE_LABELS[mode];
   const radius = 120;
   const circumference = 2 * Math.PI * radius;
   const offset = circumference - (progress / 100) * circumference;
@@ -291,23 +639,43 @@ const Timer: React.FC<{
   return (
     <div className={`flex flex-col items-center gap-8 py-10 transition-all duration-700 ${isFocusMode ? 'scale-110' : ''}`}>
       {!isFocusMode ? (
-        <div className="flex gap-2 p-1 bg-slate-200 dark:bg-slate-800 rounded-full animate-in fade-in zoom-in-95 duration-500">
-          <button
-            onClick={() => onSwitchMode('focus')}
-            className={`px-6 py-2 rounded-full text-sm font-semibold transition-all ${
-              mode === 'focus' ? 'bg-white dark:bg-slate-700 shadow-sm text-rose-600' : 'text-slate-500 hover:text-slate-700'
-            }`}
-          >
-            Focus
-          </button>
-          <button
-            onClick={() => onSwitchMode('break')}
-            className={`px-6 py-2 rounded-full text-sm font-semibold transition-all ${
-              mode === 'break' ? 'bg-white dark:bg-slate-700 shadow-sm text-teal-600' : 'text-slate-500 hover:text-slate-700'
-            }`}
+        <div className="flex flex-wrap items-center justify-center gap-3 animate-in fade-in zoom-in-95 duration-500">
+          <div className="flex gap-2 p-1 bg-slate-200 dark:bg-slate-800 rounded-full">
+            <button
+              onClick={() => onSwitchMode('focus')}
+              className={`px-6 py-2 rounded-full text-sm font-semibold transition-all ${
+                mode === 'focus' ? 'bg-white dark:bg-slate-700 shadow-xs text-rose-600' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              Focus
+            </button>
+            <button
+              onClick={() => onSwitchMode('break')}
+              className={`px-6 py-2 rounded-full text-sm font-semibold transition-all ${
+                mode === 'break' ? 'bg-white dark:bg-slate-700 shadow-xs text-teal-600' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              Break
+            </button>
+            <button
+              onClick={() => onSwitchMode('longBreak')}
+              className={`px-6 py-2 rounded-full text-sm font-semibold transition-all ${
+                mode === 'longBreak' ? 'bg-white dark:bg-slate-700 shadow-xs text-indigo-600' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              Long Break
+            </button>
+          </div>
+          <select
+            value={settings.activeProfileId ?? ''}
+            onChange={(e) => onSwitchProfile(e.target.value)}
+            disabled={!canSwitchProfile}
+            title={canSwitchProfile ? 'Timer profile' : 'Finish or reset the current session to switch profile'}
+            className="px-4 py-2 rounded-full bg-slate-200 dark:bg-slate-800 text-sm font-semibold text-slate-600 dark:text-slate-300 outline-hidden cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            Break
-          </button>
+            {settings.activeProfileId === null && <option value="">Custom</option>}
+            {settings.profiles.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
         </div>
       ) : (
         <div className="h-9 flex items-center justify-center animate-in fade-in slide-in-from-bottom-2 duration-700">
@@ -327,7 +695,7 @@ const Timer: React.FC<{
           <circle
             cx="50%" cy="50%" r={radius}
             className={`progress-ring ${
-              mode === 'focus' ? 'stroke-rose-500' : 'stroke-teal-500'
+              mode === 'focus' ? 'stroke-rose-500' : mode === 'longBreak' ? 'stroke-indigo-500' : 'stroke-teal-500'
             }`}
             strokeWidth="12" fill="none"
             strokeDasharray={circumference}
@@ -337,11 +705,19 @@ const Timer: React.FC<{
         </svg>
         <div className="absolute flex flex-col items-center select-none">
           <span className="timer-digit text-7xl font-bold tracking-tight">
-            {formatTime(timeLeft)}
+            {formatTimerDisplay(plannedSeconds, timeLeft, overtimeSeconds)}
           </span>
           {!isFocusMode && (
             <span className="text-sm font-medium uppercase tracking-widest text-slate-400 mt-2 animate-in fade-in duration-500">
-              {mode}
+              {phaseLabel}
+            </span>
+          )}
+          <span className="text-xs font-bold uppercase tracking-widest text-slate-300 dark:text-slate-600 mt-1">
+            Session {cycleSession} of {settings.longBreakInterval}
+          </span>
+          {pausesLeft !== null && (
+            <span className="text-[10px] font-bold uppercase tracking-widest text-rose-400 mt-1" title="Strict mode">
+              Strict · {pausesLeft} {pausesLeft === 1 ? 'pause' : 'pauses'} left
             </span>
           )}
         </div>
@@ -374,6 +750,15 @@ const Timer: React.FC<{
         </button>
 
         <div className="flex gap-2">
+          {onFinish && (
+            <button
+              onClick={onFinish}
+              className="p-4 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-slate-900 dark:hover:text-white transition-all active:scale-95 animate-in fade-in duration-500"
+              title="Finish session and take a break"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M20 6 9 17l-5-5"/></svg>
+            </button>
+          )}
           <button
             onClick={onToggleFocusMode}
             className={`p-4 rounded-full transition-all active:scale-95 ${
@@ -397,126 +782,524 @@ const Timer: React.FC<{
           )}
         </div>
       </div>
+
+      {isAskingPauseReason ? (
+        <div className="flex flex-wrap items-center justify-center gap-2 text-sm animate-in fade-in duration-500">
+          <span className="font-semibold text-slate-500 dark:text-slate-400">What interrupted you?</span>
+          {(Object.keys(INTERRUPTION_SOURCE_LABELS) as InterruptionSource[]).map((source) => (
+            <button
+              key={source}
+              onClick={() => onExplainPause(source)}
+              className="px-4 py-1.5 rounded-full bg-slate-100 dark:bg-slate-800 font-semibold text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+            >
+              {INTERRUPTION_SOURCE_LABELS[source]}
+            </button>
+          ))}
+        </div>
+      ) : onLogDistraction && (
+        <button
+          onClick={onLogDistraction}
+          className="px-4 py-1.5 rounded-full bg-slate-100 dark:bg-slate-800 text-sm font-semibold text-slate-500 hover:text-slate-900 dark:hover:text-white transition-colors active:scale-95 animate-in fade-in duration-500"
+          title="Log a distraction without stopping the timer"
+        >
+          I got distracted{interruptionCount > 0 && <span className="ml-2 tabular-nums text-rose-500">{interruptionCount}</span>}
+        </button>
+      )}
     </div>
   );
 };
 
 // --- Main App ---
 
-const App: React.FC = () => {
-  const [settings, setSettings] = useState<AppSettings>(getSettings());
-  const [mode, setMode] = useState<TimerMode>('focus');
-  const [timeLeft, setTimeLeft] = useState(settings.focusDuration * 60);
-  const [isActive, setIsActive] = useState(false);
+const ALERT_REPEAT_MS = 4000;
+
+const MEMORY_STORAGE_MESSAGE = "Browser storage is unavailable, so nothing will be kept after this tab closes.";
+const SAVE_FAILED_MESSAGE = "Your latest changes couldn't be saved. Browser storage may be full or blocked.";
+
+// Where a strict session would go if the user confirms leaving it
+type LeaveTarget = TimerMode | 'reset' | 'skip';
+type StrictPrompt = { kind: 'pause' } | { kind: 'leave'; target: LeaveTarget };
+
+// Persisted data is loaded asynchronously before the first render (see index.tsx)
+const App: React.FC<{ initialData: AppData }> = ({ initialData }) => {
+  const [settings, setSettings] = useState<AppSettings>(initialData.settings);
+  const [timer, setTimer] = useState<TimerState>(() => initialData.timer ?? createIdleTimer('focus', getModeDuration(initialData.settings, 'focus')));
+  const [now, setNow] = useState(Date.now());
   const [isFocusMode, setIsFocusMode] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-  const [stats, setStats] = useState<UserStats>(getStats());
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  // The alert that keeps repeating until acknowledged, when that option is on
+  const [ringingAlert, setRingingAlert] = useState<AlertSound | null>(null);
+  // The last edit made in the history editor, kept so it can be undone
+  const [lastHistoryChange, setLastHistoryChange] = useState<HistoryChange | null>(null);
+  const [undoToastKey, setUndoToastKey] = useState<number | null>(null);
+  // The focus session the reflection prompt is asking about
+  const [reflectionSessionId, setReflectionSessionId] = useState<string | null>(null);
+  const [strictPrompt, setStrictPrompt] = useState<StrictPrompt | null>(null);
+  const [todayKey, setTodayKey] = useState(() => getDateKey(new Date()));
+  const [storageError, setStorageError] = useState<string | null>(() => (getStorageAdapter().name === 'memory' ? MEMORY_STORAGE_MESSAGE : null));
+  const [stats, setStats] = useState<UserStats>(initialData.stats);
+  const reflectionSession = reflectionSessionId ? stats.sessions.find((s) => s.id === reflectionSessionId) ?? null : null;
+  const [taskList, setTaskList] = useState<TaskListState>(initialData.tasks);
   const timerRef = useRef<number | null>(null);
+  // endsAt of the countdown already credited, so a finished timer is only completed once
+  const completedEndsAtRef = useRef<number | null>(null);
+  // Session whose overtime has been announced, so pausing and resuming doesn't sound it again
+  const overtimeAlertedRef = useRef<string | null>(null);
+  // The last value of each piece of state that is already persisted and known to
+  // other tabs; changes equal to these are not saved or broadcast again
+  const syncedRef = useRef<{ stats: UserStats; settings: AppSettings; taskList: TaskListState; timer: TimerState | null }>({
+    stats: initialData.stats,
+    settings: initialData.settings,
+    taskList: initialData.tasks,
+    timer: initialData.timer,
+  });
+
+  const tabSync = useTabSync({
+    onStats: (next) => { syncedRef.current.stats = next; setStats(next); },
+    onStatsChange: (change) => setStats((prev) => applyStatsChange(prev, change, settings)),
+    onSettings: (next) => { syncedRef.current.settings = next; setSettings(next); },
+    onTasks: (next) => { syncedRef.current.taskList = next; setTaskList(next); },
+    onTimer: (next) => { syncedRef.current.timer = next; setTimer(next); },
+    onPeerJoined: () => tabSync.post({ type: 'timer', timer }),
+  });
+  const isTimerOwner = tabSync.isOwner;
+  const isUpdateAvailable = useUpdateAvailable();
+
+  const mode = timer.mode;
+  const isActive = timer.status === 'running';
+  const timeLeft = getRemainingSeconds(timer, now);
+  const overtimeSeconds = getOvertimeSeconds(timer, now);
 
   useEffect(() => {
     if (settings.darkMode) document.documentElement.classList.add('dark');
     else document.documentElement.classList.remove('dark');
   }, [settings.darkMode]);
 
+  // Settings are shared between tabs, so only the timer owner plays ambient sound.
+  // The level follows the timer: ducked or silent during breaks and pauses if configured.
+  const ambientLevel = getAmbientLevel(settings, timer);
+  const isAmbientAudible = settings.ambientSound && isTimerOwner && ambientLevel > 0;
+
   useEffect(() => {
-    if (settings.ambientSound) startAmbientSound(settings.ambientSoundType, settings.ambientVolume);
+    if (isAmbientAudible) startAmbientSound(settings.ambientLayers, settings.ambientVolume);
     else stopAmbientSound();
-  }, [settings.ambientSound, settings.ambientSoundType]);
+  }, [isAmbientAudible]);
+
+  useEffect(() => {
+    if (isAmbientAudible) setAmbientLevel(ambientLevel);
+  }, [isAmbientAudible, ambientLevel]);
+
+  useEffect(() => {
+    setAmbientLayers(settings.ambientLayers);
+  }, [settings.ambientLayers]);
 
   useEffect(() => {
     updateAmbientVolume(settings.ambientVolume);
   }, [settings.ambientVolume]);
 
+  // The app keeps running from memory when a write fails; the user is told their data isn't safe
+  const reportSaveError = () => setStorageError(SAVE_FAILED_MESSAGE);
+
+  // Includes anything storage ran into while loading, before the app was mounted
+  useEffect(() => setIssueReporter(setStorageError), []);
+
   useEffect(() => {
-    if (!isActive) {
-      setTimeLeft((mode === 'focus' ? settings.focusDuration : settings.breakDuration) * 60);
-    }
-  }, [settings.focusDuration, settings.breakDuration, mode]);
+    if (settings === syncedRef.current.settings) return;
+    syncedRef.current.settings = settings;
+    saveSettings(settings).catch(reportSaveError);
+    tabSync.post({ type: 'settings', settings });
+  }, [settings]);
+
+  useEffect(() => {
+    if (timer === syncedRef.current.timer) return;
+    syncedRef.current.timer = timer;
+    saveTimerState(timer).catch(reportSaveError);
+    tabSync.post({ type: 'timer', timer });
+  }, [timer]);
+
+  useEffect(() => {
+    if (taskList === syncedRef.current.taskList) return;
+    syncedRef.current.taskList = taskList;
+    saveTasks(taskList).catch(reportSaveError);
+    tabSync.post({ type: 'tasks', taskList });
+  }, [taskList]);
+
+  // Only the owner writes stats; anything another tab changed locally meanwhile was also sent to
+  // the owner, and a tab that takes over ownership saves whatever it has that isn't saved yet
+  useEffect(() => {
+    if (!isTimerOwner || stats === syncedRef.current.stats) return;
+    syncedRef.current.stats = stats;
+    saveStats(stats).catch(reportSaveError);
+    tabSync.post({ type: 'stats', stats });
+  }, [stats, isTimerOwner]);
+
+  // Shown here straight away; in a tab that isn't the owner, also sent to the owner to apply and save
+  const changeStats = (change: StatsChange) => {
+    setStats((prev) => applyStatsChange(prev, change, settings));
+    if (!tabSync.ownsNow()) tabSync.post({ type: 'statsChange', change });
+  };
+
+  // Today's and this week's totals roll over at midnight even if nothing else happens; the
+  // timeout can be throttled in a background tab, so coming back to the tab checks as well
+  useEffect(() => {
+    const checkDate = () => setTodayKey(getDateKey(new Date()));
+    const timeout = window.setTimeout(checkDate, addDays(parseDateKey(todayKey), 1).getTime() - Date.now() + 1000);
+    document.addEventListener('visibilitychange', checkDate);
+    return () => {
+      clearTimeout(timeout);
+      document.removeEventListener('visibilitychange', checkDate);
+    };
+  }, [todayKey]);
+
+  // Streaks and weekly totals depend on these and on the date, so recompute when they change.
+  // Goals synced from another tab arrive as a new array, so they are compared by content.
+  const goalsKey = JSON.stringify(stats.goals);
+  useEffect(() => {
+    setStats((prev) => refreshStats(prev, settings));
+  }, [settings.weekStartsOn, settings.streakRequiresGoal, settings.streakFreezesPerMonth, goalsKey, todayKey]);
+
+  // Only the timer owner adjusts the timer; other tabs pick up its result
+  useEffect(() => {
+    // Flowtime breaks are sized from the focus session before them
+    if (!isTimerOwner || (settings.flowtime && mode !== 'focus')) return;
+    const duration = getModeDuration(settings, mode);
+    setTimer((prev) => (prev.status === 'idle' && prev.plannedSeconds !== duration ? createIdleTimer(prev.mode, duration, prev.cycleCount) : prev));
+  }, [settings.focusDuration, settings.breakDuration, settings.longBreakDuration, settings.flowtime, mode, isTimerOwner]);
 
   const handleSwitchMode = useCallback((newMode: TimerMode) => {
-    setIsActive(false);
-    setMode(newMode);
-    setTimeLeft((newMode === 'focus' ? settings.focusDuration : settings.breakDuration) * 60);
+    setTimer((prev) => createIdleTimer(newMode, getModeDuration(settings, newMode), prev.cycleCount));
   }, [settings]);
 
+  const recordSession = useCallback((completed: boolean, actualSeconds: number, endedAt: Date): SessionRecord | null => {
+    if (!timer.sessionStartedAt) return null;
+    const taskId = timer.mode === 'focus' ? taskList.activeTaskId : null;
+    const record = createSessionRecord(timer.mode, new Date(timer.sessionStartedAt), endedAt, timer.plannedSeconds, actualSeconds, completed, {
+      taskId,
+      profileId: settings.activeProfileId,
+      interruptions: timer.mode === 'focus' ? timer.interruptions : undefined,
+    });
+    changeStats({ type: 'append', session: record });
+    // A mis-clicked finish, skip or reset can be taken back like a history edit
+    setLastHistoryChange({ label: completed ? 'Session logged' : 'Session logged as abandoned', before: null, after: record });
+    setUndoToastKey(Date.now());
+    return record;
+  }, [timer, taskList.activeTaskId, settings]);
+
+  // Credits the session and sets up the next phase; a Flowtime break is sized from the focus time just credited
+  const advancePhase = useCallback((actualSeconds: number, endedAt: Date) => {
+    const record = recordSession(true, actualSeconds, endedAt);
+    if (record && record.mode === 'focus' && settings.askForReflection) setReflectionSessionId(record.id);
+    const next = getNextPhase(settings, timer);
+    const duration = settings.flowtime && timer.mode === 'focus' ? getFlowtimeBreakSeconds(settings, actualSeconds) : getModeDuration(settings, next.mode);
+    const idle = createIdleTimer(next.mode, duration, next.cycleCount);
+    setTimer(shouldAutoStart(settings, next.mode) ? startTimer(idle) : idle);
+    return { next: next.mode, duration };
+  }, [settings, timer, recordSession]);
+
   const completeSession = useCallback(() => {
-    playNotification();
-    if (mode === 'focus') {
-      const minutesCompleted = settings.focusDuration;
-      const newStats: UserStats = {
-        ...stats,
-        todaySessions: stats.todaySessions + 1,
-        weekSessions: stats.weekSessions + 1,
-        totalMinutesToday: stats.totalMinutesToday + minutesCompleted,
-        totalMinutesWeek: stats.totalMinutesWeek + minutesCompleted,
-        lastUpdate: new Date().toISOString()
-      };
-      setStats(newStats);
-      saveStats(newStats);
-      handleSwitchMode('break');
-    } else {
-      handleSwitchMode('focus');
+    const alert = settings.alertSounds[timer.mode === 'focus' ? 'focusEnd' : 'breakEnd'];
+    playAlert(alert, settings.alertVolume);
+    if (settings.alertRepeat && alert !== 'none') setRingingAlert(alert);
+    const { next, duration } = advancePhase(timer.plannedSeconds, new Date(timer.endsAt ?? Date.now()));
+    // The tab itself already shows the change when the user is looking at it
+    if (settings.systemNotifications && !document.hasFocus()) {
+      showPhaseNotification(timer.mode, next, duration / 60).catch(() => {});
     }
-  }, [mode, stats, handleSwitchMode, settings]);
+  }, [settings, timer, advancePhase]);
+
+  // Leaving a session part-way through keeps it in the log, flagged as abandoned.
+  // Leaving during overtime still credits it, since the planned time was reached.
+  const abandonSession = () => {
+    const elapsed = getElapsedSeconds(timer);
+    recordSession(timer.plannedSeconds > 0 && elapsed >= timer.plannedSeconds, elapsed, new Date());
+  };
+
+  // Any click or key press anywhere counts as acknowledging a repeating alert
+  useEffect(() => {
+    if (!ringingAlert) return;
+    const interval = window.setInterval(() => playAlert(ringingAlert, settings.alertVolume), ALERT_REPEAT_MS);
+    const acknowledge = () => setRingingAlert(null);
+    window.addEventListener('pointerdown', acknowledge, true);
+    window.addEventListener('keydown', acknowledge, true);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('pointerdown', acknowledge, true);
+      window.removeEventListener('keydown', acknowledge, true);
+    };
+  }, [ringingAlert, settings.alertVolume]);
+
+  // A strict prompt is moot once the session ends by itself or from another tab
+  useEffect(() => {
+    if (!isStrictSession(settings, timer)) setStrictPrompt(null);
+  }, [settings.strictMode, timer.mode, timer.sessionStartedAt]);
+
+  // The prompt is only useful until the next focus session gets going
+  useEffect(() => {
+    if (mode === 'focus' && timer.sessionStartedAt) setReflectionSessionId(null);
+  }, [mode, timer.sessionStartedAt]);
+
+  const isTicking = settings.tickingDuringFocus && isTimerOwner && isActive && mode === 'focus';
+
+  useEffect(() => {
+    if (isTicking) startTicking(settings.alertVolume);
+    else stopTicking();
+  }, [isTicking, settings.alertVolume]);
 
   useEffect(() => {
     if (isActive) {
-      timerRef.current = window.setInterval(() => {
-        setTimeLeft((prev) => {
-          if (prev <= 1) {
-            if (timerRef.current) clearInterval(timerRef.current);
-            completeSession();
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-    } else if (timerRef.current) {
-      clearInterval(timerRef.current);
+      const tick = () => setNow(Date.now());
+      tick();
+      timerRef.current = window.setInterval(tick, 250);
+      document.addEventListener('visibilitychange', tick);
+      return () => {
+        if (timerRef.current) clearInterval(timerRef.current);
+        document.removeEventListener('visibilitychange', tick);
+      };
+    }
+  }, [isActive]);
+
+  // Also fires on load when the countdown ran out while the tab was closed.
+  // Mirroring tabs leave completion to the owner so a session is credited once.
+  useEffect(() => {
+    if (!isTimerOwner || !isActive || timeLeft > 0) return;
+    // Open-ended focus keeps counting; reaching the planned time only sounds the alert, once
+    if (isOpenEnded(settings, timer)) {
+      if (timer.plannedSeconds > 0 && overtimeAlertedRef.current !== timer.sessionStartedAt) {
+        overtimeAlertedRef.current = timer.sessionStartedAt;
+        playAlert(settings.alertSounds.focusEnd, settings.alertVolume);
+      }
+      return;
+    }
+    if (completedEndsAtRef.current !== timer.endsAt) {
+      completedEndsAtRef.current = timer.endsAt;
+      completeSession();
     }
-    return () => { if (timerRef.current) clearInterval(timerRef.current); };
-  }, [isActive, completeSession]);
+  }, [isTimerOwner, isActive, timeLeft, timer.endsAt, completeSession]);
+
+  // The tab title and favicon show the countdown while the app is in the background.
+  // The favicon ring moves in 2% steps so it isn't redrawn on every tick.
+  const faviconProgress = Math.floor(((timer.plannedSeconds - timeLeft) / Math.max(1, timer.plannedSeconds)) * 50) / 50;
+
+  useEffect(() => {
+    document.title = getTabTitle(timer, timeLeft, overtimeSeconds);
+  }, [timer.status, timer.mode, timeLeft, overtimeSeconds]);
+
+  useEffect(() => {
+    drawProgressFavicon(faviconProgress, mode);
+  }, [faviconProgress, mode]);
+
+  const handleRestore = (backup: BackupFile, strategy: RestoreStrategy) => {
+    const restored = restoreBackup(backup, strategy, { stats, settings, tasks: taskList });
+    changeStats({ type: 'replace', stats: restored.stats });
+    setSettings(restored.settings);
+    setTaskList(restored.tasks);
+  };
 
-  const toggleTimer = () => setIsActive(!isActive);
-  const resetTimer = () => { if (!isFocusMode) { setIsActive(false); setTimeLeft((mode === 'focus' ? settings.focusDuration : settings.breakDuration) * 60); } };
+  const switchProfile = (profileId: string) => {
+    const profile = settings.profiles.find((p) => p.id === profileId);
+    if (profile && !timer.sessionStartedAt) setSettings(applyProfile(settings, profile));
+  };
+
+  // Strict mode asks first before a started focus session is paused or left short of its planned time
+  const isStrict = isStrictSession(settings, timer);
+  const isLeavingEarly = () => isStrict && !(timer.plannedSeconds > 0 && getElapsedSeconds(timer) >= timer.plannedSeconds);
+
+  // Whichever tab the user drives the timer from becomes its owner
+  const toggleTimer = () => {
+    if (isStrict && timer.status === 'running') { setStrictPrompt({ kind: 'pause' }); return; }
+    tabSync.claimOwnership();
+    setTimer((prev) => (prev.status === 'running' ? pauseTimer(prev) : startTimer(prev)));
+  };
+  const pauseStrictSession = (reason: string) => {
+    setStrictPrompt(null);
+    if (getPausesLeft(settings, timer) === 0) return;
+    tabSync.claimOwnership();
+    setTimer((prev) => pauseTimer(prev, Date.now(), reason || undefined));
+  };
+  // Skipping goes straight to the phase after the current one without crediting it
+  const leaveSession = (target: LeaveTarget) => {
+    setStrictPrompt(null);
+    tabSync.claimOwnership();
+    abandonSession();
+    if (target !== 'skip') {
+      handleSwitchMode(target === 'reset' ? mode : target);
+      return;
+    }
+    const next = getNextPhase(settings, timer);
+    const idle = createIdleTimer(next.mode, getModeDuration(settings, next.mode), next.cycleCount);
+    setTimer(shouldAutoStart(settings, next.mode) ? startTimer(idle) : idle);
+  };
+  const requestLeave = (target: LeaveTarget) => {
+    if (isLeavingEarly()) setStrictPrompt({ kind: 'leave', target });
+    else leaveSession(target);
+  };
+  const switchMode = (newMode: TimerMode) => requestLeave(newMode);
+  // Focus mode hides the reset button, but a strict session can still be given up from the keyboard
+  const resetTimer = () => { if (!isFocusMode || isStrict) requestLeave('reset'); };
+  const skipPhase = () => requestLeave('skip');
+  // Open-ended focus ends when the user says so, with any overtime credited
+  const canFinishSession = isOpenEnded(settings, timer) && timer.sessionStartedAt !== null;
+  const finishSession = () => {
+    if (!canFinishSession) return;
+    tabSync.claimOwnership();
+    setRingingAlert(null);
+    advancePhase(getElapsedSeconds(timer), new Date());
+  };
   const toggleFocusMode = () => { setIsFocusMode(!isFocusMode); if (isFocusMode && document.fullscreenElement) document.exitFullscreen().catch(() => {}); };
   const toggleFullscreen = () => { if (!document.fullscreenElement) document.documentElement.requestFullscreen().catch(() => {}); else document.exitFullscreen().catch(() => {}); };
+  // Started here rather than in the ambient effect so the AudioContext is created inside the user gesture
+  const toggleAmbientSound = () => {
+    const newActive = !settings.ambientSound;
+    setSettings({ ...settings, ambientSound: newActive });
+    if (newActive && ambientLevel > 0) startAmbientSound(settings.ambientLayers, settings.ambientVolume);
+    else stopAmbientSound();
+  };
+  const toggleDarkMode = () => setSettings({ ...settings, darkMode: !settings.darkMode });
+  const changeHistory = (change: HistoryChange) => {
+    changeStats({ type: 'history', change });
+    setLastHistoryChange(change);
+    setUndoToastKey(Date.now());
+  };
+  const saveReflection = (note: string, rating: number | null) => {
+    if (reflectionSessionId) changeStats({ type: 'reflect', sessionId: reflectionSessionId, note, rating });
+    setReflectionSessionId(null);
+  };
+  const undoHistoryChange = () => {
+    if (!lastHistoryChange) return;
+    changeStats({ type: 'history', change: invertHistoryChange(lastHistoryChange) });
+    if (lastHistoryChange.after?.id === reflectionSessionId) setReflectionSessionId(null);
+    setLastHistoryChange(null);
+    setUndoToastKey(null);
+  };
+  // Distractions only mean something inside a focus session that has been started
+  const canLogDistraction = mode === 'focus' && timer.sessionStartedAt !== null;
+  const logDistraction = () => {
+    if (!canLogDistraction) return;
+    tabSync.claimOwnership();
+    setTimer((prev) => logInterruption(prev, 'distraction', 'internal'));
+  };
+  const explainLastPause = (source: InterruptionSource) => { tabSync.claimOwnership(); setTimer((prev) => explainPause(prev, source)); };
+  const openSettings = () => { setIsPaletteOpen(false); setIsSettingsOpen(true); };
+
+  const actions: Record<ShortcutAction, () => void> = {
+    toggleTimer,
+    resetTimer,
+    focusPhase: () => switchMode('focus'),
+    breakPhase: () => switchMode('break'),
+    longBreakPhase: () => switchMode('longBreak'),
+    toggleFocusMode,
+    toggleFullscreen,
+    toggleAmbientSound,
+    toggleDarkMode,
+    openSettings,
+    openCommandPalette: () => setIsPaletteOpen(!isPaletteOpen),
+    logDistraction,
+    undoHistoryChange,
+    finishSession,
+  };
+
+  const commands: Command[] = [
+    ...(Object.keys(actions) as ShortcutAction[])
+      .filter((action) => action !== 'openCommandPalette')
+      .map((action) => ({ id: action, group: 'Action', label: SHORTCUT_LABELS[action], shortcut: settings.shortcuts[action], run: actions[action] })),
+    ...(timer.sessionStartedAt ? [] : settings.profiles.filter((p) => p.id !== settings.activeProfileId)).map((profile) => ({
+      id: `profile-${profile.id}`,
+      group: 'Profile',
+      label: `Switch to ${profile.name}`,
+      run: () => switchProfile(profile.id),
+    })),
+  ];
+
+  // The listener is attached once; the ref always points at this render's values
+  const shortcutStateRef = useRef({ actions, shortcuts: settings.shortcuts, isDialogOpen: false });
+  shortcutStateRef.current = { actions, shortcuts: settings.shortcuts, isDialogOpen: isSettingsOpen || isPaletteOpen || strictPrompt !== null };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat) return;
+      const { actions, shortcuts, isDialogOpen } = shortcutStateRef.current;
+      const shortcut = eventToShortcut(e);
+      const action = shortcut ? findShortcutAction(shortcuts, shortcut) : undefined;
+      // Typing keeps shortcuts out of the way, but a modified palette combo still works from
+      // a text field, so the palette's own input can close it again
+      const isPaletteCombo = action === 'openCommandPalette' && (e.ctrlKey || e.metaKey || e.altKey);
+      if (isTypingTarget(e.target) && !isPaletteCombo) return;
+      // Open dialogs keep the keyboard to themselves, except for toggling the palette
+      if (!action || (isDialogOpen && action !== 'openCommandPalette')) return;
+      e.preventDefault();
+      actions[action]();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // A notification may be acted on long after it was shown, so only the phase it
+  // offered is started or skipped
+  const handleNotificationAction = ({ action, mode: offered }: NotificationActionMessage) => {
+    setRingingAlert(null);
+    if (!action || offered !== mode) return;
+    if (action === 'skip') skipPhase();
+    else if (!isActive) toggleTimer();
+  };
+  const notificationActionRef = useRef(handleNotificationAction);
+  notificationActionRef.current = handleNotificationAction;
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+    const handleMessage = (e: MessageEvent) => {
+      if (isNotificationActionMessage(e.data)) notificationActionRef.current(e.data);
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, []);
 
   return (
     <div className={`min-h-screen flex flex-col items-center px-6 transition-all duration-1000 ${isFocusMode ? 'justify-center overflow-hidden pb-0' : 'pb-20'}`}>
-      <Header settings={settings} setSettings={setSettings} onOpenSettings={() => setIsSettingsOpen(true)} isHidden={isFocusMode} />
+      <Header
+        settings={settings}
+        onToggleAmbient={toggleAmbientSound}
+        onToggleDarkMode={toggleDarkMode}
+        onOpenSettings={openSettings}
+        isHidden={isFocusMode}
+      />
       
       <main className={`w-full flex flex-col items-center max-w-2xl transition-all duration-1000 ${isFocusMode ? 'gap-0 mt-0' : 'gap-12 mt-8'}`}>
         <Timer
           mode={mode}
+          cycleCount={timer.cycleCount}
+          canSwitchProfile={!timer.sessionStartedAt}
+          onSwitchProfile={switchProfile}
           timeLeft={timeLeft}
+          plannedSeconds={timer.plannedSeconds}
+          overtimeSeconds={overtimeSeconds}
+          onFinish={canFinishSession ? finishSession : undefined}
           isActive={isActive}
           isFocusMode={isFocusMode}
           settings={settings}
           onToggle={toggleTimer}
           onReset={resetTimer}
-          onSwitchMode={handleSwitchMode}
+          onSwitchMode={switchMode}
           onToggleFocusMode={toggleFocusMode}
           onToggleFullscreen={toggleFullscreen}
+          interruptionCount={timer.interruptions.length}
+          onLogDistraction={canLogDistraction ? logDistraction : undefined}
+          isAskingPauseReason={getUnexplainedPause(timer) !== null}
+          onExplainPause={explainLastPause}
+          pausesLeft={isStrict ? getPausesLeft(settings, timer) : null}
         />
+
+        {reflectionSession && (
+          <ReflectionPrompt key={reflectionSession.id} session={reflectionSession} onSave={saveReflection} onSkip={() => setReflectionSessionId(null)} />
+        )}
         
         {!isFocusMode && (
           <div className="w-full flex flex-col gap-6">
-            <div className="w-full max-w-2xl bg-white dark:bg-slate-900 rounded-3xl p-8 shadow-sm border border-slate-100 dark:border-slate-800 animate-in fade-in slide-in-from-bottom-8 duration-700">
-              <div className="flex justify-between items-center mb-6">
-                <span className="text-sm font-bold text-slate-700 dark:text-slate-300">Daily Objective</span>
-                <div className="flex items-center gap-2 bg-slate-50 dark:bg-slate-800 p-1 rounded-xl">
-                  <button onClick={() => setStats(s => { const ns = {...s, dailyGoal: Math.max(1, s.dailyGoal - 1)}; saveStats(ns); return ns; })} className="p-1 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"><svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round"><path d="M5 12h14"/></svg></button>
-                  <span className="text-sm font-bold tabular-nums px-1">{stats.dailyGoal}</span>
-                  <button onClick={() => setStats(s => { const ns = {...s, dailyGoal: s.dailyGoal + 1}; saveStats(ns); return ns; })} className="p-1 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"><svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round"><path d="M12 5v14M5 12h14"/></svg></button>
-                </div>
-              </div>
-              <div className="w-full h-3 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
-                <div className="h-full bg-rose-500 transition-all duration-700" style={{ width: `${Math.min((stats.todaySessions / stats.dailyGoal) * 100, 100)}%` }} />
-              </div>
-            </div>
+            <GoalsPanel stats={stats} weekStartsOn={settings.weekStartsOn} onChangeGoals={(goals) => changeStats({ type: 'goals', goals })} />
+
+            <TaskList taskList={taskList} sessions={stats.sessions} onChange={setTaskList} />
 
-            <StatsDashboard stats={stats} />
+            <StatsDashboard stats={stats} tasks={taskList.tasks} weekStartsOn={settings.weekStartsOn} onChangeHistory={changeHistory} />
           </div>
         )}
       </main>
@@ -527,7 +1310,42 @@ const App: React.FC = () => {
         </footer>
       )}
 
-      <SettingsModal isOpen={isSettingsOpen} settings={settings} onClose={() => setIsSettingsOpen(false)} onSave={setSettings} />
+      <SettingsModal
+        isOpen={isSettingsOpen}
+        settings={settings}
+        stats={stats}
+        taskList={taskList}
+        onClose={() => setIsSettingsOpen(false)}
+        onSave={setSettings}
+        onRestore={handleRestore}
+      />
+
+      {ringingAlert && (
+        <div className="fixed top-6 left-1/2 -translate-x-1/2 z-40 px-5 py-3 rounded-2xl bg-rose-500 text-white text-sm font-semibold shadow-2xl shadow-rose-500/30 animate-in fade-in slide-in-from-top-4 duration-500">
+          Time's up — click anywhere or press a key to silence the alert
+        </div>
+      )}
+
+      {lastHistoryChange && undoToastKey !== null && !isFocusMode && (
+        <UndoToast key={undoToastKey} label={lastHistoryChange.label} onUndo={undoHistoryChange} onDismiss={() => setUndoToastKey(null)} />
+      )}
+
+      {storageError && !isFocusMode && <StorageError message={storageError} onDismiss={() => setStorageError(null)} />}
+
+      {isUpdateAvailable && !isFocusMode && <UpdatePrompt canReload={!timer.sessionStartedAt} onReload={applyUpdate} />}
+
+      <CommandPalette isOpen={isPaletteOpen} commands={commands} onClose={() => setIsPaletteOpen(false)} />
+
+      {strictPrompt && (
+        <StrictModeDialog
+          kind={strictPrompt.kind}
+          pausesLeft={getPausesLeft(settings, timer)}
+          maxPauses={settings.strictMaxPauses}
+          onPause={pauseStrictSession}
+          onGiveUp={() => leaveSession(strictPrompt.kind === 'leave' ? strictPrompt.target : 'reset')}
+          onCancel={() => setStrictPrompt(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { UserStats } from '../types';
+import { addDays, formatMinutes, getDateKey, getWeekStart } from '../utils/date';
+import { getDailyCounts, getDailyMinutes } from '../utils/sessions';
+import { getDailyGoal } from '../utils/goals';
+
+const MONTHS_SHOWN = 12;
+
+// Intensity is relative to that day's goal; the top level means the goal was met
+const getLevel = (count: number, goal: number) => {
+  if (count <= 0) return 0;
+  const ratio = count / Math.max(1, goal);
+  if (ratio >= 1) return 4;
+  if (ratio >= 0.66) return 3;
+  if (ratio >= 0.33) return 2;
+  return 1;
+};
+
+const LEVEL_CLASSES = [
+  'bg-slate-100 dark:bg-slate-800',
+  'bg-rose-100 dark:bg-rose-950',
+  'bg-rose-200 dark:bg-rose-900',
+  'bg-rose-300 dark:bg-rose-700',
+  'bg-rose-500 dark:bg-rose-500',
+];
+
+const ActivityHeatmap: React.FC<{
+  stats: UserStats;
+  weekStartsOn: number;
+  selectedDate: string | null;
+  onSelectDate: (dateKey: string) => void;
+}> = ({ stats, weekStartsOn, selectedDate, onSelectDate }) => {
+  // How many months the window has been moved back from the current month
+  const [monthOffset, setMonthOffset] = useState(0);
+
+  const today = new Date();
+  const todayStr = getDateKey(today);
+  const counts = getDailyCounts(stats);
+  const minutes = getDailyMinutes(stats);
+
+  const rangeEnd = new Date(today.getFullYear(), today.getMonth() - monthOffset + 1, 0);
+  const rangeStart = new Date(rangeEnd.getFullYear(), rangeEnd.getMonth() - MONTHS_SHOWN + 1, 1);
+  const gridStart = getWeekStart(rangeStart, weekStartsOn);
+
+  const weeks: Date[][] = [];
+  for (let d = gridStart; d <= rangeEnd; d = addDays(d, 7)) {
+    weeks.push(Array.from({ length: 7 }, (_, i) => addDays(d, i)));
+  }
+
+  const rangeLabel = `${rangeStart.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })} – ${rangeEnd.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })}`;
+  const activeDays = Object.keys(counts).filter((k) => counts[k] > 0 && k >= getDateKey(rangeStart) && k <= getDateKey(rangeEnd)).length;
+
+  return (
+    <div className="bg-slate-50 dark:bg-slate-800/50 p-6 rounded-2xl border border-slate-100 dark:border-slate-800">
+      <div className="flex justify-between items-center mb-4">
+        <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Past Year · {activeDays} active days</span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setMonthOffset(monthOffset + 1)}
+            className="p-1 rounded-lg text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+            title="Previous month"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="m15 18-6-6 6-6"/></svg>
+          </button>
+          <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider tabular-nums">{rangeLabel}</span>
+          <button
+            onClick={() => setMonthOffset(Math.max(0, monthOffset - 1))}
+            disabled={monthOffset === 0}
+            className="p-1 rounded-lg text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors disabled:opacity-30"
+            title="Next month"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="m9 18 6-6-6-6"/></svg>
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto pb-2">
+        <div className="flex gap-[3px] w-max">
+          {weeks.map((week) => (
+            <div key={getDateKey(week[0])} className="flex flex-col gap-[3px]">
+              {week.map((d) => {
+                const key = getDateKey(d);
+                const inRange = d >= rangeStart && d <= rangeEnd && key <= todayStr;
+                if (!inRange) return <div key={key} className="w-3 h-3" />;
+                const count = counts[key] || 0;
+                return (
+                  <button
+                    key={key}
+                    onClick={() => onSelectDate(key)}
+                    title={`${d.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}: ${count} sessions, ${formatMinutes(minutes[key] || 0)}`}
+                    className={`w-3 h-3 rounded-[3px] ${LEVEL_CLASSES[getLevel(count, getDailyGoal(stats.goals, key))]} ${
+                      selectedDate === key ? 'ring-2 ring-slate-800 dark:ring-white' : key === todayStr ? 'ring-1 ring-rose-500' : ''
+                    }`}
+                  />
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end gap-1 mt-2 text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+        <span className="mr-1">Less</span>
+        {LEVEL_CLASSES.map((cls, i) => <span key={i} className={`w-3 h-3 rounded-[3px] ${cls}`} />)}
+        <span className="ml-1">Goal</span>
+      </div>
+    </div>
+  );
+};
+
+export default ActivityHeatmap;
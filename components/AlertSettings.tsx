@@ -0,0 +1,71 @@
+import React from 'react';
+import { AlertTransition, AppSettings } from '../types';
+import { ALERT_SOUND_LABELS, ALERT_SOUNDS, ALERT_TRANSITION_LABELS } from '../utils/chimes';
+import { playAlert, previewTicking } from '../utils/audio';
+
+const TICK_PREVIEW_SECONDS = 4;
+
+// Alert and ticking options for the settings modal; edits the modal's local copy of settings
+const AlertSettings: React.FC<{
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+}> = ({ settings, onChange }) => {
+  return (
+    <div className="border-t border-slate-100 dark:border-slate-800 pt-6 space-y-4">
+      <label className="text-sm font-semibold text-slate-500 uppercase tracking-wider block">Alerts</label>
+      {(Object.keys(ALERT_TRANSITION_LABELS) as AlertTransition[]).map((transition) => (
+        <div key={transition} className="flex items-center gap-2">
+          <span className="w-24 shrink-0 text-xs font-bold text-slate-400 uppercase tracking-widest">{ALERT_TRANSITION_LABELS[transition]}</span>
+          <select
+            value={settings.alertSounds[transition]}
+            onChange={(e) => onChange({ ...settings, alertSounds: { ...settings.alertSounds, [transition]: e.target.value } })}
+            className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 text-xs text-slate-600 dark:text-slate-300 outline-hidden cursor-pointer"
+          >
+            {ALERT_SOUNDS.map((sound) => <option key={sound} value={sound}>{ALERT_SOUND_LABELS[sound]}</option>)}
+          </select>
+          <button
+            onClick={() => playAlert(settings.alertSounds[transition], settings.alertVolume)}
+            disabled={settings.alertSounds[transition] === 'none'}
+            className="px-3 py-2 rounded-xl text-xs font-bold bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-50"
+          >
+            Play
+          </button>
+        </div>
+      ))}
+
+      <div className="space-y-3">
+        <div className="flex justify-between items-center">
+          <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Alert Volume</span>
+          <span className="text-xs font-bold text-slate-500">{Math.round(settings.alertVolume * 100)}%</span>
+        </div>
+        <input
+          type="range" min="0" max="1" step="0.01"
+          value={settings.alertVolume}
+          onChange={(e) => onChange({ ...settings, alertVolume: parseFloat(e.target.value) })}
+          className="w-full accent-slate-400 h-2 bg-slate-100 dark:bg-slate-800 rounded-lg appearance-none cursor-pointer"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {([['alertRepeat', 'Repeat until dismissed'], ['tickingDuringFocus', 'Tick during focus']] as const).map(([key, label]) => (
+          <button
+            key={key}
+            onClick={() => onChange({ ...settings, [key]: !settings[key] })}
+            className={`py-2 px-3 rounded-xl text-xs font-bold transition-all ${
+              settings[key]
+              ? 'bg-rose-500 text-white shadow-lg shadow-rose-500/20' 
+              : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <button onClick={() => previewTicking(settings.alertVolume, TICK_PREVIEW_SECONDS)} className="text-[10px] font-bold text-slate-400 uppercase tracking-wider hover:text-rose-500">
+        Preview ticking
+      </button>
+    </div>
+  );
+};
+
+export default AlertSettings;
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { AmbientLayer, AppSettings } from '../types';
+import { AMBIENT_SOUND_TYPES } from '../utils/schema';
+import { AMBIENT_SOUND_LABELS, createLayer, createMix, createTrack, createTrackLayer, getLayerKey, MAX_TRACK_BYTES, removeTrack, sameLayers } from '../utils/ambient';
+import { BINAURAL_BEATS } from '../utils/soundscapes';
+import { decodeAudioFile } from '../utils/audio';
+import { canStoreAmbientTracks, saveAmbientTrack } from '../utils/storage';
+
+// Layer mixer and saved mixes for the settings modal; edits the modal's local copy of settings
+const AmbientMixer: React.FC<{
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+}> = ({ settings, onChange }) => {
+  const [newName, setNewName] = useState('');
+  const [isAddingTrack, setIsAddingTrack] = useState(false);
+  const [trackError, setTrackError] = useState<string | null>(null);
+  const { ambientLayers: layers, ambientMixes: mixes, ambientTracks: tracks } = settings;
+  const activeMix = mixes.find((mix) => sameLayers(mix.layers, layers));
+  // localStorage has no room for audio files, so uploads need IndexedDB
+  const canAddTracks = canStoreAmbientTracks();
+
+  const setLayers = (next: AmbientLayer[]) => onChange({ ...settings, ambientLayers: next });
+  const findLayer = (candidate: AmbientLayer) => layers.find((l) => getLayerKey(l) === getLayerKey(candidate));
+  const toggleLayer = (candidate: AmbientLayer) => {
+    const layer = findLayer(candidate);
+    setLayers(layer ? layers.filter((l) => l !== layer) : [...layers, candidate]);
+  };
+  const updateLayer = (layer: AmbientLayer, changes: Partial<AmbientLayer>) =>
+    setLayers(layers.map((l) => (l === layer ? { ...l, ...changes } : l)));
+
+  const saveMix = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim() || layers.length === 0) return;
+    onChange({ ...settings, ambientMixes: [...mixes, createMix(newName, layers)] });
+    setNewName('');
+  };
+
+  // The file is decoded first, so only audio the browser can actually play gets stored
+  const addTrack = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (file.size > MAX_TRACK_BYTES) {
+      setTrackError(`"${file.name}" is larger than ${MAX_TRACK_BYTES / 1024 / 1024} MB.`);
+      return;
+    }
+    setIsAddingTrack(true);
+    setTrackError(null);
+    try {
+      const data = await file.arrayBuffer();
+      await decodeAudioFile(data).catch(() => {
+        throw new Error(`"${file.name}" isn't an audio file this browser can play.`);
+      });
+      const track = createTrack(file.name);
+      await saveAmbientTrack(track.id, data).catch(() => {
+        throw new Error('There is not enough storage space left for this file.');
+      });
+      onChange({ ...settings, ambientTracks: [...tracks, track], ambientLayers: [...layers, createTrackLayer(track)] });
+    } catch (err) {
+      setTrackError((err as Error).message);
+    } finally {
+      setIsAddingTrack(false);
+    }
+  };
+
+  const renderRow = (candidate: AmbientLayer, label: string, extra?: React.ReactNode) => {
+    const layer = findLayer(candidate);
+    return (
+      <li key={getLayerKey(candidate)} className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => toggleLayer(candidate)}
+          title={label}
+          className={`w-28 shrink-0 py-2 px-3 rounded-xl text-xs font-bold truncate transition-all ${
+            layer
+            ? 'bg-rose-500 text-white shadow-lg shadow-rose-500/20' 
+            : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'
+          }`}
+        >
+          {label}
+        </button>
+        {layer && (
+          <>
+            <input
+              type="range" min="0" max="1" step="0.01"
+              value={layer.volume}
+              onChange={(e) => updateLayer(layer, { volume: parseFloat(e.target.value) })}
+              disabled={layer.muted}
+              className="flex-1 accent-rose-500 h-2 bg-slate-100 dark:bg-slate-800 rounded-lg appearance-none cursor-pointer disabled:opacity-40"
+            />
+            <button
+              onClick={() => updateLayer(layer, { muted: !layer.muted })}
+              className={`w-14 text-[10px] font-bold uppercase tracking-wider ${layer.muted ? 'text-rose-500' : 'text-slate-400 hover:text-slate-600'}`}
+            >
+              {layer.muted ? 'Muted' : 'Mute'}
+            </button>
+          </>
+        )}
+        {extra}
+        {layer?.beatHz !== undefined && (
+          <select
+            value={layer.beatHz}
+            onChange={(e) => updateLayer(layer, { beatHz: parseFloat(e.target.value) })}
+            title="Best with headphones"
+            className="basis-full px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 text-xs text-slate-500 outline-hidden cursor-pointer"
+          >
+            {BINAURAL_BEATS.map((beat) => <option key={beat.hz} value={beat.hz}>{beat.label} · headphones</option>)}
+          </select>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {mixes.map((mix) => (
+          <button
+            key={mix.id}
+            onClick={() => setLayers(mix.layers.map((l) => ({ ...l })))}
+            className={`py-2 px-3 rounded-xl text-xs font-bold transition-all ${
+              activeMix?.id === mix.id
+              ? 'bg-rose-500 text-white shadow-lg shadow-rose-500/20' 
+              : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'
+            }`}
+          >
+            {mix.name}
+          </button>
+        ))}
+      </div>
+
+      <ul className="space-y-2">
+        {AMBIENT_SOUND_TYPES.map((type) => renderRow(createLayer(type), AMBIENT_SOUND_LABELS[type]))}
+        {tracks.map((track) =>
+          renderRow(
+            createTrackLayer(track),
+            track.name,
+            <button
+              onClick={() => onChange(removeTrack(settings, track.id))}
+              className="text-[10px] font-bold uppercase tracking-wider text-slate-400 hover:text-rose-500"
+              title={`Delete "${track.name}"`}
+            >
+              Delete
+            </button>
+          )
+        )}
+      </ul>
+
+      <div className="space-y-1">
+        <label className={`block w-full py-2 px-3 rounded-xl text-xs font-bold text-center transition-all bg-slate-100 dark:bg-slate-800 text-slate-500 ${isAddingTrack || !canAddTracks ? 'opacity-50' : 'cursor-pointer hover:bg-slate-200 dark:hover:bg-slate-700'}`}>
+          {isAddingTrack ? 'Adding track…' : 'Add your own audio file…'}
+          <input type="file" accept="audio/*" onChange={addTrack} disabled={isAddingTrack || !canAddTracks} className="hidden" />
+        </label>
+        {!canAddTracks && <p className="text-[10px] text-slate-400">This browser isn't giving FocusForge enough storage for audio files.</p>}
+        {trackError && <p className="text-[10px] text-rose-500">{trackError}</p>}
+      </div>
+
+      <form onSubmit={saveMix} className="flex gap-2">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Save mix as…"
+          className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 text-xs outline-hidden focus:ring-2 focus:ring-rose-500/40"
+        />
+        <button type="submit" disabled={layers.length === 0} className="px-3 py-2 rounded-xl text-xs font-bold bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-50">
+          Save
+        </button>
+        {activeMix && (
+          <button
+            type="button"
+            onClick={() => onChange({ ...settings, ambientMixes: mixes.filter((m) => m.id !== activeMix.id) })}
+            className="px-3 py-2 rounded-xl text-xs font-bold text-slate-400 hover:text-rose-500"
+            title={`Delete "${activeMix.name}"`}
+          >
+            Delete
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default AmbientMixer;
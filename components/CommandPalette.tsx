@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { formatShortcut } from '../utils/shortcuts';
+
+export interface Command {
+  id: string;
+  label: string;
+  group: string;
+  shortcut?: string;
+  run: () => void;
+}
+
+// Every word typed has to appear somewhere in the label or group
+const matches = (command: Command, query: string) => {
+  const haystack = `${command.group} ${command.label}`.toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every((word) => haystack.includes(word));
+};
+
+const CommandPalette: React.FC<{
+  isOpen: boolean;
+  commands: Command[];
+  onClose: () => void;
+}> = ({ isOpen, commands, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setSelected(0);
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    listRef.current?.children[selected]?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  if (!isOpen) return null;
+
+  const results = commands.filter((c) => matches(c, query));
+
+  const run = (command: Command | undefined) => {
+    if (!command) return;
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelected((selected + 1) % Math.max(1, results.length));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelected((selected - 1 + results.length) % Math.max(1, results.length));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      run(results[selected]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center p-4 pt-[15vh] bg-slate-900/40 backdrop-blur-md animate-in fade-in duration-300"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-slate-900 w-full max-w-lg rounded-3xl shadow-2xl border border-slate-100 dark:border-slate-800 overflow-hidden animate-in zoom-in-95 duration-500"
+        role="dialog"
+        aria-label="Command palette"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => { setQuery(e.target.value); setSelected(0); }}
+          onKeyDown={handleKeyDown}
+          placeholder="Type a command…"
+          className="w-full px-6 py-5 bg-transparent text-base outline-hidden border-b border-slate-100 dark:border-slate-800 placeholder:text-slate-400"
+        />
+        <ul ref={listRef} className="max-h-[50vh] overflow-y-auto p-2">
+          {results.length === 0 && <li className="px-4 py-6 text-sm text-center text-slate-400">No matching commands</li>}
+          {results.map((command, i) => (
+            <li key={command.id}>
+              <button
+                onClick={() => run(command)}
+                onMouseEnter={() => setSelected(i)}
+                className={`w-full flex items-center justify-between gap-4 px-4 py-3 rounded-2xl text-left text-sm transition-colors ${
+                  i === selected ? 'bg-rose-50 dark:bg-rose-900/20 text-rose-600 dark:text-rose-400' : 'text-slate-600 dark:text-slate-300'
+                }`}
+              >
+                <span>
+                  <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mr-2">{command.group}</span>
+                  {command.label}
+                </span>
+                {command.shortcut && (
+                  <kbd className="text-[10px] font-bold px-2 py-1 rounded-lg bg-slate-100 dark:bg-slate-800 text-slate-500 shrink-0">
+                    {formatShortcut(command.shortcut)}
+                  </kbd>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,89 @@
+import React, { useRef, useState } from 'react';
+import { AppSettings, TaskList, UserStats } from '../types';
+import { BackupFile, createBackup, parseBackup, RestoreStrategy } from '../utils/backup';
+import { downloadFile, historyToCsv, sessionsToCsv, sessionsToIcs } from '../utils/export';
+import { getDateKey } from '../utils/date';
+
+const DataTransfer: React.FC<{
+  stats: UserStats;
+  settings: AppSettings;
+  taskList: TaskList;
+  onRestore: (backup: BackupFile, strategy: RestoreStrategy) => void;
+}> = ({ stats, settings, taskList, onRestore }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<BackupFile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const stamp = getDateKey(new Date());
+
+  const exports = [
+    {
+      label: 'Backup (JSON)',
+      run: () => downloadFile(`focusforge-backup-${stamp}.json`, JSON.stringify(createBackup(stats, settings, taskList), null, 2), 'application/json'),
+    },
+    { label: 'Daily CSV', run: () => downloadFile(`focusforge-history-${stamp}.csv`, historyToCsv(stats), 'text/csv') },
+    { label: 'Sessions CSV', run: () => downloadFile(`focusforge-sessions-${stamp}.csv`, sessionsToCsv(stats, taskList.tasks, settings.profiles), 'text/csv') },
+    { label: 'Calendar (.ics)', run: () => downloadFile(`focusforge-${stamp}.ics`, sessionsToIcs(stats, taskList.tasks), 'text/calendar') },
+  ];
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPending(parseBackup(await file.text()));
+      setError(null);
+    } catch (err) {
+      setPending(null);
+      setError(err instanceof Error ? err.message : 'The backup could not be read.');
+    }
+  };
+
+  const restore = (strategy: RestoreStrategy) => {
+    if (!pending) return;
+    if (strategy === 'replace' && !window.confirm('Replace all current data with this backup? This cannot be undone.')) return;
+    onRestore(pending, strategy);
+    setPending(null);
+  };
+
+  return (
+    <div className="border-t border-slate-100 dark:border-slate-800 pt-6 space-y-4">
+      <label className="text-sm font-semibold text-slate-500 uppercase tracking-wider block">Your Data</label>
+      <div className="grid grid-cols-2 gap-2">
+        {exports.map(({ label, run }) => (
+          <button
+            key={label}
+            onClick={run}
+            className="py-2 px-3 rounded-xl text-xs font-bold transition-all bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="w-full py-2 px-3 rounded-xl text-xs font-bold transition-all border-2 border-dashed border-slate-200 dark:border-slate-700 text-slate-500 hover:border-rose-300 hover:text-rose-500"
+      >
+        Restore from Backup…
+      </button>
+
+      {error && <p className="text-xs font-semibold text-rose-500">{error}</p>}
+
+      {pending && (
+        <div className="bg-slate-50 dark:bg-slate-800/50 p-4 rounded-2xl border border-slate-100 dark:border-slate-800 space-y-3">
+          <p className="text-xs text-slate-500">
+            Backup from {new Date(pending.exportedAt).toLocaleString()} with {pending.stats.sessions.length} sessions and {pending.tasks.tasks.length} tasks.
+          </p>
+          <div className="grid grid-cols-3 gap-2">
+            <button onClick={() => restore('merge')} className="py-2 rounded-xl text-xs font-bold bg-rose-500 text-white shadow-lg shadow-rose-500/20">Merge</button>
+            <button onClick={() => restore('replace')} className="py-2 rounded-xl text-xs font-bold bg-slate-900 text-white dark:bg-white dark:text-slate-900">Replace</button>
+            <button onClick={() => setPending(null)} className="py-2 rounded-xl text-xs font-bold bg-slate-100 dark:bg-slate-800 text-slate-500">Cancel</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataTransfer;
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { SessionRecord, Task, UserStats } from '../types';
+import { formatMinutes, parseDateKey } from '../utils/date';
+import { getFocusOutcomes, getSessionsOn, isCountedSession } from '../utils/sessions';
+import { MODE_LABELS } from '../utils/timer';
+import { HistoryChange } from '../utils/history';
+import SessionEditor from './SessionEditor';
+
+const formatClock = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const DayDetail: React.FC<{
+  stats: UserStats;
+  tasks: Task[];
+  dateKey: string;
+  onClose: () => void;
+  onChange: (change: HistoryChange) => void;
+}> = ({ stats, tasks, dateKey, onClose, onChange }) => {
+  // The session being edited, or 'new' while adding one
+  const [editing, setEditing] = useState<SessionRecord | 'new' | null>(null);
+  const sessions = getSessionsOn(stats, dateKey);
+  const counted = sessions.filter(isCountedSession);
+  const focusMinutes = counted.reduce((sum, s) => sum + s.actualSeconds / 60, 0);
+  const { abandoned } = getFocusOutcomes(sessions);
+  // Days from before the session log only have a count in the archive
+  const archivedCount = stats.history[dateKey] || 0;
+  const taskById = new Map(tasks.map((t) => [t.id, t] as const));
+
+  return (
+    <div className="bg-slate-50 dark:bg-slate-800/50 p-6 rounded-2xl border border-slate-100 dark:border-slate-800 animate-in fade-in duration-500">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider block">
+            {parseDateKey(dateKey).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })}
+          </span>
+          <span className="text-lg font-bold text-slate-800 dark:text-white">
+            {counted.length + archivedCount} sessions · {formatMinutes(focusMinutes)}
+            {abandoned > 0 && <span className="text-sm font-semibold text-slate-400"> · {abandoned} abandoned</span>}
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setEditing('new')}
+            className="p-1 rounded-lg text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+            title="Add a session by hand"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M12 5v14M5 12h14"/></svg>
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-lg text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+            title="Close"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+          </button>
+        </div>
+      </div>
+
+      {editing === 'new' && (
+        <div className="mb-4">
+          <SessionEditor
+            session={null}
+            dateKey={dateKey}
+            tasks={tasks}
+            onSave={(session) => { onChange({ label: 'Session added', before: null, after: session }); setEditing(null); }}
+            onCancel={() => setEditing(null)}
+          />
+        </div>
+      )}
+
+      {sessions.length === 0 ? (
+        <p className="text-sm text-slate-400">
+          {archivedCount > 0 ? `${archivedCount} sessions recorded before individual sessions were logged.` : 'No sessions on this day.'}
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {sessions.map((s) => {
+            const task = s.taskId ? taskById.get(s.taskId) : undefined;
+            if (editing !== 'new' && editing?.id === s.id) {
+              return (
+                <li key={s.id}>
+                  <SessionEditor
+                    session={s}
+                    dateKey={dateKey}
+                    tasks={tasks}
+                    onSave={(session) => { onChange({ label: 'Session updated', before: s, after: session }); setEditing(null); }}
+                    onCancel={() => setEditing(null)}
+                  />
+                </li>
+              );
+            }
+            return (
+              <li key={s.id} className="group flex items-center gap-3 text-sm">
+                <span className="tabular-nums text-slate-400 w-28 shrink-0">{formatClock(s.startedAt)} – {formatClock(s.endedAt)}</span>
+                <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full shrink-0 ${
+                  s.mode === 'focus' ? 'bg-rose-100 text-rose-600 dark:bg-rose-900/40 dark:text-rose-400' : 'bg-teal-100 text-teal-600 dark:bg-teal-900/40 dark:text-teal-400'
+                }`}>
+                  {MODE_LABELS[s.mode]}
+                </span>
+                <span className="flex-1 truncate text-slate-600 dark:text-slate-300">{task?.title ?? ''}</span>
+                {s.rating !== undefined && (
+                  <span className="text-xs font-bold tabular-nums text-rose-500 shrink-0" title={s.note ?? 'Focus rating'}>
+                    {s.rating}/5
+                  </span>
+                )}
+                {s.manual && <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400 shrink-0" title="Entered by hand">Manual</span>}
+                {s.interruptions && s.interruptions.length > 0 && (
+                  <span className="text-xs font-bold tabular-nums text-amber-500 shrink-0" title={`${s.interruptions.length} interruptions`}>
+                    {s.interruptions.length}!
+                  </span>
+                )}
+                <span className={`tabular-nums font-bold shrink-0 ${s.completed ? 'text-slate-500' : 'text-slate-300 dark:text-slate-600 line-through'}`} title={s.completed ? 'Completed' : 'Abandoned'}>
+                  {formatMinutes(s.actualSeconds / 60)}
+                </span>
+                <div className="flex shrink-0 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                  <button onClick={() => setEditing(s)} className="p-1 rounded-lg text-slate-400 hover:text-slate-700 dark:hover:text-white" title="Edit session">
+                    <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M12 20h9"/><path d="M16.5 3.5a2.12 2.12 0 0 1 3 3L7 19l-4 1 1-4Z"/></svg>
+                  </button>
+                  <button onClick={() => onChange({ label: 'Session deleted', before: s, after: null })} className="p-1 rounded-lg text-slate-400 hover:text-rose-500" title="Delete session">
+                    <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M3 6h18"/><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6"/><path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/></svg>
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DayDetail;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Goal, UserStats } from '../types';
+import { formatMinutes, getDateKey, getWeekdayOrder, WEEKDAY_LABELS } from '../utils/date';
+import { getGoalOn, getGoalProgress, setGoalFromToday } from '../utils/goals';
+
+type GoalDraft = Omit<Goal, 'effectiveFrom'>;
+
+const NumberField: React.FC<{ value: number; max: number; step?: number; onChange: (value: number) => void }> = ({ value, max, step = 1, onChange }) => (
+  <input
+    type="number"
+    min={0}
+    max={max}
+    step={step}
+    value={value}
+    onChange={(e) => onChange(Math.min(max, Math.max(0, Math.round(Number(e.target.value) || 0))))}
+    className="w-full px-2 py-1.5 rounded-lg bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-sm font-bold tabular-nums text-center outline-hidden focus:border-rose-400"
+  />
+);
+
+const GoalsPanel: React.FC<{
+  stats: UserStats;
+  weekStartsOn: number;
+  onChangeGoals: (goals: Goal[]) => void;
+}> = ({ stats, weekStartsOn, onChangeGoals }) => {
+  const [draft, setDraft] = useState<GoalDraft | null>(null);
+  const progress = getGoalProgress(stats);
+
+  const startEditing = () => {
+    const { effectiveFrom, ...current } = getGoalOn(stats.goals, getDateKey(new Date()));
+    setDraft(current);
+  };
+  const save = () => {
+    if (draft) onChangeGoals(setGoalFromToday(stats.goals, draft));
+    setDraft(null);
+  };
+  const setDaily = (day: number, value: number) =>
+    draft && setDraft({ ...draft, dailySessions: draft.dailySessions.map((n, i) => (i === day ? value : n)) });
+
+  return (
+    <div className="w-full max-w-2xl bg-white dark:bg-slate-900 rounded-3xl p-8 shadow-xs border border-slate-100 dark:border-slate-800 animate-in fade-in slide-in-from-bottom-8 duration-700">
+      <div className="flex justify-between items-center mb-6">
+        <span className="text-sm font-bold text-slate-700 dark:text-slate-300">Goals</span>
+        {!draft && (
+          <button
+            onClick={startEditing}
+            className="px-3 py-1 rounded-lg text-xs font-bold text-slate-500 bg-slate-50 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+          >
+            Edit
+          </button>
+        )}
+      </div>
+
+      {draft ? (
+        <div className="space-y-5">
+          <div>
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2 block">Sessions per day</span>
+            <div className="grid grid-cols-7 gap-2">
+              {getWeekdayOrder(weekStartsOn).map((day) => (
+                <label key={day} className="flex flex-col items-center gap-1">
+                  <NumberField value={draft.dailySessions[day]} max={99} onChange={(value) => setDaily(day, value)} />
+                  <span className="text-[10px] font-bold uppercase text-slate-400">{WEEKDAY_LABELS[day]}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <label className="space-y-1 block">
+              <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block">Sessions per week</span>
+              <NumberField value={draft.weeklySessions} max={999} onChange={(weeklySessions) => setDraft({ ...draft, weeklySessions })} />
+            </label>
+            <label className="space-y-1 block">
+              <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block">Focus minutes per week</span>
+              <NumberField value={draft.weeklyMinutes} max={7 * 24 * 60} step={30} onChange={(weeklyMinutes) => setDraft({ ...draft, weeklyMinutes })} />
+            </label>
+          </div>
+          <p className="text-xs text-slate-400">0 means no goal. Changes apply from today; earlier days keep the goal they had.</p>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setDraft(null)} className="px-4 py-2 rounded-xl text-sm font-semibold text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors">
+              Cancel
+            </button>
+            <button onClick={save} className="px-4 py-2 rounded-xl bg-rose-500 text-white text-sm font-semibold hover:bg-rose-600 transition-colors">
+              Save Goals
+            </button>
+          </div>
+        </div>
+      ) : progress.length === 0 ? (
+        <p className="text-sm text-slate-400">No goals set for today. Enjoy the rest day.</p>
+      ) : (
+        <div className="space-y-4">
+          {progress.map((p) => (
+            <div key={p.id} className="space-y-2">
+              <div className="flex justify-between items-center text-xs font-bold uppercase tracking-wider">
+                <span className="text-slate-400">{p.label}</span>
+                <span className="tabular-nums text-slate-500">
+                  {p.unit === 'minutes' ? `${formatMinutes(p.current)} / ${formatMinutes(p.target)}` : `${p.current} / ${p.target} sessions`}
+                </span>
+              </div>
+              <div className="w-full h-3 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
+                <div className={`h-full transition-all duration-700 ${p.current >= p.target ? 'bg-teal-500' : 'bg-rose-500'}`} style={{ width: `${Math.min((p.current / p.target) * 100, 100)}%` }} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GoalsPanel;
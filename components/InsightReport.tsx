@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { UserStats } from '../types';
+import { formatMinutes, getDateKey, getWeekdayOrder, WEEKDAY_LABELS } from '../utils/date';
+import { downloadFile, printHtml, reportToHtml } from '../utils/export';
+import {
+  buildInsightReport,
+  formatChange,
+  formatComparison,
+  formatHour,
+  formatReportDay,
+  getChange,
+  REPORT_PERIOD_LABELS,
+  ReportPeriod,
+} from '../utils/reports';
+
+const Bars: React.FC<{ rows: { label: string; title: string; value: number }[] }> = ({ rows }) => {
+  const max = Math.max(1, ...rows.map((r) => r.value));
+  return (
+    <div className="flex items-end gap-1 h-24">
+      {rows.map((row, i) => (
+        <div key={i} className="flex-1 h-full flex flex-col justify-end items-center gap-1" title={row.title}>
+          <div className="w-full bg-rose-500 rounded-t" style={{ height: `${(row.value / max) * 100}%`, minHeight: row.value > 0 ? 2 : 0 }} />
+          <span className="text-[9px] font-bold text-slate-400 h-3">{row.label}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const InsightReport: React.FC<{ stats: UserStats; weekStartsOn: number }> = ({ stats, weekStartsOn }) => {
+  const [period, setPeriod] = useState<ReportPeriod>('week');
+  // How many periods back from the current one the report looks
+  const [offset, setOffset] = useState(0);
+
+  const report = buildInsightReport(stats, period, offset, weekStartsOn);
+  const { totals, previous } = report;
+  const cards = [
+    { label: 'Focus Time', value: formatMinutes(totals.focusMinutes), change: getChange(totals.focusMinutes, previous.focusMinutes) },
+    { label: 'Sessions', value: String(totals.sessions), change: getChange(totals.sessions, previous.sessions) },
+    { label: 'Avg Session', value: formatMinutes(totals.averageMinutes), change: getChange(totals.averageMinutes, previous.averageMinutes) },
+    { label: 'Completion', value: `${Math.round(totals.completionRate * 100)}%`, change: getChange(totals.completionRate, previous.completionRate) },
+  ];
+
+  const switchPeriod = (next: ReportPeriod) => {
+    setPeriod(next);
+    setOffset(0);
+  };
+  const fileName = `focusforge-${period}-report-${getDateKey(report.start)}.html`;
+
+  return (
+    <div className="bg-slate-50 dark:bg-slate-800/50 p-6 rounded-2xl border border-slate-100 dark:border-slate-800 space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setOffset(offset + 1)}
+            className="p-1 rounded-lg text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+            title={`Previous ${period}`}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="m15 18-6-6 6-6"/></svg>
+          </button>
+          <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">{REPORT_PERIOD_LABELS[period]} Report ({report.label})</span>
+          <button
+            onClick={() => setOffset(Math.max(0, offset - 1))}
+            disabled={offset === 0}
+            className="p-1 rounded-lg text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors disabled:opacity-30"
+            title={`Next ${period}`}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="m9 18 6-6-6-6"/></svg>
+          </button>
+        </div>
+        <div className="flex gap-1 p-1 bg-slate-200 dark:bg-slate-800 rounded-full">
+          {(Object.keys(REPORT_PERIOD_LABELS) as ReportPeriod[]).map((p) => (
+            <button
+              key={p}
+              onClick={() => switchPeriod(p)}
+              className={`px-3 py-1 rounded-full text-xs font-semibold transition-all ${
+                period === p ? 'bg-white dark:bg-slate-700 shadow-xs text-rose-600' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {REPORT_PERIOD_LABELS[p]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {cards.map((card) => (
+          <div key={card.label}>
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block">{card.label}</span>
+            <span className="text-xl font-bold tabular-nums text-slate-800 dark:text-white block">{card.value}</span>
+            <span
+              className={`text-xs font-bold tabular-nums ${card.change === null ? 'text-slate-300 dark:text-slate-600' : card.change >= 0 ? 'text-teal-500' : 'text-rose-500'}`}
+              title={formatComparison(report)}
+            >
+              {formatChange(card.change)}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {report.archivedSessions > 0 && (
+        <p className="text-xs text-slate-400">Plus {report.archivedSessions} archived sessions recorded before durations were tracked.</p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+        <div>
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-3 block">By Hour of Day</span>
+          <Bars rows={report.minutesByHour.map((minutes, hour) => ({ label: hour % 6 === 0 ? formatHour(hour) : '', title: `${formatHour(hour)}: ${formatMinutes(minutes)}`, value: minutes }))} />
+        </div>
+        <div>
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-3 block">By Day of Week</span>
+          <Bars rows={getWeekdayOrder(weekStartsOn).map((day) => ({ label: WEEKDAY_LABELS[day], title: `${WEEKDAY_LABELS[day]}: ${formatMinutes(report.minutesByWeekday[day])}`, value: report.minutesByWeekday[day] }))} />
+        </div>
+      </div>
+
+      {report.bestDay && (
+        <div className="flex flex-wrap gap-x-8 gap-y-2 text-sm">
+          <span className="text-slate-500">
+            Best day: <span className="font-semibold text-slate-700 dark:text-slate-200">{formatReportDay(report.bestDay)}</span> · {formatMinutes(report.bestDay.minutes)}
+          </span>
+          {report.worstDay && (
+            <span className="text-slate-500">
+              Quietest: <span className="font-semibold text-slate-700 dark:text-slate-200">{formatReportDay(report.worstDay)}</span> · {formatMinutes(report.worstDay.minutes)}
+            </span>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => printHtml(reportToHtml(report, weekStartsOn))}
+          className="py-2 px-3 rounded-xl text-xs font-bold transition-all bg-slate-200 dark:bg-slate-800 text-slate-500 hover:bg-slate-300 dark:hover:bg-slate-700"
+        >
+          Print / PDF
+        </button>
+        <button
+          onClick={() => downloadFile(fileName, reportToHtml(report, weekStartsOn), 'text/html')}
+          className="py-2 px-3 rounded-xl text-xs font-bold transition-all bg-slate-200 dark:bg-slate-800 text-slate-500 hover:bg-slate-300 dark:hover:bg-slate-700"
+        >
+          Export HTML
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default InsightReport;
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { AppSettings } from '../types';
+import { applyProfile, createProfile, matchesProfile, getActiveProfile } from '../utils/profiles';
+
+// Profile picker for the settings modal; edits the modal's local copy of settings
+const ProfileManager: React.FC<{
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+}> = ({ settings, onChange }) => {
+  const [newName, setNewName] = useState('');
+  const active = getActiveProfile(settings);
+  const isModified = !!active && !matchesProfile(settings, active);
+
+  const saveAsNew = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    const profile = createProfile(newName, settings);
+    onChange({ ...settings, profiles: [...settings.profiles, profile], activeProfileId: profile.id });
+    setNewName('');
+  };
+
+  const removeActive = () => {
+    if (!active || settings.profiles.length <= 1) return;
+    const profiles = settings.profiles.filter((p) => p.id !== active.id);
+    onChange(applyProfile({ ...settings, profiles }, profiles[0]));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <label className="text-sm font-semibold text-slate-500 uppercase tracking-wider">Profile</label>
+        {isModified && <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Edited · saved on apply</span>}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {settings.profiles.map((profile) => (
+          <button
+            key={profile.id}
+            onClick={() => onChange(applyProfile(settings, profile))}
+            className={`py-2 px-3 rounded-xl text-xs font-bold transition-all ${
+              settings.activeProfileId === profile.id
+              ? 'bg-rose-500 text-white shadow-lg shadow-rose-500/20' 
+              : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'
+            }`}
+          >
+            {profile.name}
+          </button>
+        ))}
+      </div>
+      <form onSubmit={saveAsNew} className="flex gap-2">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Save current as…"
+          className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 text-xs outline-hidden focus:ring-2 focus:ring-rose-500/40"
+        />
+        <button type="submit" className="px-3 py-2 rounded-xl text-xs font-bold bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700">
+          Save
+        </button>
+        {active && settings.profiles.length > 1 && (
+          <button
+            type="button"
+            onClick={removeActive}
+            className="px-3 py-2 rounded-xl text-xs font-bold text-slate-400 hover:text-rose-500"
+            title={`Delete "${active.name}"`}
+          >
+            Delete
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default ProfileManager;
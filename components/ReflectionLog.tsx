@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Task, UserStats } from '../types';
+import { findReflections, getRatingTrend, hasReflection, RATING_LABELS, RATINGS } from '../utils/reflections';
+
+const TREND_WEEKS = 8;
+const RESULTS_SHOWN = 20;
+
+const ReflectionLog: React.FC<{ stats: UserStats; tasks: Task[]; weekStartsOn: number }> = ({ stats, tasks, weekStartsOn }) => {
+  const [query, setQuery] = useState('');
+  const [rating, setRating] = useState<number | null>(null);
+
+  const matches = findReflections(stats.sessions, query, rating);
+  const trend = getRatingTrend(stats.sessions, weekStartsOn, TREND_WEEKS);
+  const taskById = new Map(tasks.map((t) => [t.id, t] as const));
+
+  if (!stats.sessions.some(hasReflection)) return null;
+
+  return (
+    <div className="bg-slate-50 dark:bg-slate-800/50 p-6 rounded-2xl border border-slate-100 dark:border-slate-800 space-y-5">
+      <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider block">Reflections</span>
+
+      <div>
+        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-3 block">Average Rating ({TREND_WEEKS} Weeks)</span>
+        <div className="flex items-end gap-2 h-20">
+          {trend.map((point) => (
+            <div
+              key={point.weekStart.toISOString()}
+              className="flex-1 h-full flex flex-col justify-end items-center gap-1"
+              title={`Week of ${point.weekStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}: ${
+                point.average === null ? 'no ratings' : `${point.average.toFixed(1)} from ${point.count} sessions`
+              }`}
+            >
+              <span className="text-[10px] font-bold tabular-nums text-slate-500">{point.average === null ? '' : point.average.toFixed(1)}</span>
+              <div className="w-full bg-rose-500 rounded-t" style={{ height: `${((point.average ?? 0) / 5) * 100}%` }} />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search notes"
+          className="flex-1 min-w-[10rem] px-3 py-2 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-sm outline-hidden focus:border-rose-400"
+        />
+        <select
+          value={rating ?? ''}
+          onChange={(e) => setRating(e.target.value ? Number(e.target.value) : null)}
+          className="px-3 py-2 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-sm outline-hidden cursor-pointer"
+        >
+          <option value="">Any rating</option>
+          {RATINGS.map((r) => <option key={r} value={r}>{r} · {RATING_LABELS[r]}</option>)}
+        </select>
+      </div>
+
+      {matches.length === 0 ? (
+        <p className="text-sm text-slate-400">No reflections match.</p>
+      ) : (
+        <ul className="space-y-3">
+          {matches.slice(0, RESULTS_SHOWN).map((s) => {
+            const task = s.taskId ? taskById.get(s.taskId) : undefined;
+            return (
+              <li key={s.id} className="text-sm space-y-0.5">
+                <div className="flex items-center gap-2 text-xs text-slate-400">
+                  <span className="tabular-nums">{new Date(s.startedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}</span>
+                  {s.rating !== undefined && <span className="font-bold text-rose-500" title={RATING_LABELS[s.rating]}>{s.rating}/5</span>}
+                  {task && <span className="truncate">{task.title}</span>}
+                </div>
+                {s.note && <p className="text-slate-600 dark:text-slate-300 whitespace-pre-wrap break-words">{s.note}</p>}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {matches.length > RESULTS_SHOWN && (
+        <p className="text-xs text-slate-400">Showing the latest {RESULTS_SHOWN} of {matches.length}. Narrow the search to find older ones.</p>
+      )}
+    </div>
+  );
+};
+
+export default ReflectionLog;
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { SessionRecord } from '../types';
+import { MAX_NOTE_LENGTH, RATING_LABELS, RATINGS } from '../utils/reflections';
+
+export const RatingPicker: React.FC<{ value: number | null; onChange: (rating: number | null) => void }> = ({ value, onChange }) => (
+  <div className="flex gap-1">
+    {RATINGS.map((rating) => (
+      <button
+        key={rating}
+        type="button"
+        // Picking the current rating again clears it
+        onClick={() => onChange(value === rating ? null : rating)}
+        title={RATING_LABELS[rating]}
+        className={`w-9 h-9 rounded-xl text-sm font-bold tabular-nums transition-all ${
+          value !== null && rating <= value
+            ? 'bg-rose-500 text-white shadow-lg shadow-rose-500/20'
+            : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'
+        }`}
+      >
+        {rating}
+      </button>
+    ))}
+  </div>
+);
+
+// Shown after a focus session ends; dismissing it leaves the session without a reflection
+const ReflectionPrompt: React.FC<{
+  session: SessionRecord;
+  onSave: (note: string, rating: number | null) => void;
+  onSkip: () => void;
+}> = ({ session, onSave, onSkip }) => {
+  const [note, setNote] = useState(session.note ?? '');
+  const [rating, setRating] = useState<number | null>(session.rating ?? null);
+
+  return (
+    <div className="w-full max-w-md bg-white dark:bg-slate-900 rounded-3xl p-6 shadow-xs border border-slate-100 dark:border-slate-800 space-y-4 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div>
+        <span className="text-sm font-bold text-slate-700 dark:text-slate-300 block">How did that session go?</span>
+        <span className="text-xs text-slate-400">Optional. Notes can be searched later under Insights.</span>
+      </div>
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        maxLength={MAX_NOTE_LENGTH}
+        rows={2}
+        placeholder="What did you get done?"
+        className="w-full px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-sm outline-hidden focus:border-rose-400 resize-none"
+      />
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <RatingPicker value={rating} onChange={setRating} />
+        <div className="flex gap-2">
+          <button onClick={onSkip} className="px-4 py-2 rounded-xl text-sm font-semibold text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors">
+            Skip
+          </button>
+          <button
+            onClick={() => onSave(note, rating)}
+            disabled={!note.trim() && rating === null}
+            className="px-4 py-2 rounded-xl bg-rose-500 text-white text-sm font-semibold hover:bg-rose-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReflectionPrompt;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { SessionRecord, Task, TimerMode } from '../types';
+import { createDraft, draftFromSession, SessionDraft, sessionFromDraft } from '../utils/history';
+import { MODE_LABELS } from '../utils/timer';
+import { MAX_NOTE_LENGTH } from '../utils/reflections';
+import { RatingPicker } from './ReflectionPrompt';
+
+const inputClass = 'w-full px-3 py-2 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-sm outline-hidden focus:border-rose-400';
+
+const SessionEditor: React.FC<{
+  session: SessionRecord | null; // null when adding a new session
+  dateKey: string;
+  tasks: Task[];
+  onSave: (session: SessionRecord) => void;
+  onCancel: () => void;
+}> = ({ session, dateKey, tasks, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<SessionDraft>(() => (session ? draftFromSession(session) : createDraft(dateKey)));
+  const [error, setError] = useState<string | null>(null);
+  // Finished tasks stay selectable for the session already credited to them
+  const taskOptions = tasks.filter((t) => !t.done || t.id === draft.taskId);
+
+  const update = (changes: Partial<SessionDraft>) => {
+    setDraft({ ...draft, ...changes });
+    setError(null);
+  };
+  const save = () => {
+    try {
+      onSave(sessionFromDraft(draft, session));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'The session could not be saved.');
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-4 rounded-xl bg-white/60 dark:bg-slate-900/60 border border-slate-200 dark:border-slate-700">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <label className="space-y-1 block">
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block">Date</span>
+          <input type="date" value={draft.date} onChange={(e) => update({ date: e.target.value })} className={inputClass} />
+        </label>
+        <label className="space-y-1 block">
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block">Start</span>
+          <input type="time" value={draft.time} onChange={(e) => update({ time: e.target.value })} className={inputClass} />
+        </label>
+        <label className="space-y-1 block">
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block">Minutes</span>
+          <input type="number" min={1} max={600} value={draft.minutes} onChange={(e) => update({ minutes: Math.round(Number(e.target.value) || 0) })} className={inputClass} />
+        </label>
+        <label className="space-y-1 block">
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block">Type</span>
+          <select value={draft.mode} onChange={(e) => update({ mode: e.target.value as TimerMode })} className={inputClass}>
+            {(Object.keys(MODE_LABELS) as TimerMode[]).map((m) => <option key={m} value={m}>{MODE_LABELS[m]}</option>)}
+          </select>
+        </label>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        {draft.mode === 'focus' && (
+          <select value={draft.taskId ?? ''} onChange={(e) => update({ taskId: e.target.value || null })} className={`${inputClass} flex-1 min-w-[10rem]`}>
+            <option value="">No task</option>
+            {taskOptions.map((t) => <option key={t.id} value={t.id}>{t.title}</option>)}
+          </select>
+        )}
+        <button
+          onClick={() => update({ completed: !draft.completed })}
+          className={`px-3 py-2 rounded-xl text-xs font-bold transition-all ${
+            draft.completed ? 'bg-rose-500 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-500'
+          }`}
+        >
+          {draft.completed ? 'Completed' : 'Abandoned'}
+        </button>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={draft.note}
+          onChange={(e) => update({ note: e.target.value })}
+          maxLength={MAX_NOTE_LENGTH}
+          placeholder="Note (optional)"
+          className={`${inputClass} flex-1 min-w-[10rem]`}
+        />
+        <RatingPicker value={draft.rating} onChange={(rating) => update({ rating })} />
+      </div>
+      {error && <p className="text-xs font-semibold text-rose-500">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-4 py-2 rounded-xl text-sm font-semibold text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors">
+          Cancel
+        </button>
+        <button onClick={save} className="px-4 py-2 rounded-xl bg-rose-500 text-white text-sm font-semibold hover:bg-rose-600 transition-colors">
+          {session ? 'Save Session' : 'Add Session'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SessionEditor;
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { ShortcutAction } from '../types';
+import { DEFAULT_SHORTCUTS, eventToShortcut, findShortcutAction, formatShortcut, SHORTCUT_ACTIONS, SHORTCUT_LABELS } from '../utils/shortcuts';
+
+// Remapping list for the settings modal. Click a binding, then press the new keys.
+const ShortcutSettings: React.FC<{
+  shortcuts: Record<ShortcutAction, string>;
+  onChange: (shortcuts: Record<ShortcutAction, string>) => void;
+}> = ({ shortcuts, onChange }) => {
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+
+  const handleKeyDown = (action: ShortcutAction) => (e: React.KeyboardEvent) => {
+    if (recording !== action) return;
+    e.preventDefault();
+    // Keep the global shortcut handler from acting on the keys being recorded
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      setRecording(null);
+      return;
+    }
+    const shortcut = e.key === 'Backspace' || e.key === 'Delete' ? '' : eventToShortcut(e.nativeEvent);
+    if (shortcut === null) return;
+    const next = { ...shortcuts, [action]: shortcut };
+    // A key can only do one thing, so it is taken away from any other action
+    const clash = shortcut ? findShortcutAction(shortcuts, shortcut) : undefined;
+    if (clash && clash !== action) next[clash] = '';
+    onChange(next);
+    setRecording(null);
+  };
+
+  return (
+    <div className="border-t border-slate-100 dark:border-slate-800 pt-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <label className="text-sm font-semibold text-slate-500 uppercase tracking-wider">Keyboard Shortcuts</label>
+        <button onClick={() => onChange(DEFAULT_SHORTCUTS)} className="text-[10px] font-bold text-slate-400 uppercase tracking-wider hover:text-rose-500">
+          Reset
+        </button>
+      </div>
+      <ul className="space-y-1">
+        {SHORTCUT_ACTIONS.map((action) => (
+          <li key={action} className="flex items-center justify-between gap-2 text-xs">
+            <span className="text-slate-500">{SHORTCUT_LABELS[action]}</span>
+            <button
+              onClick={() => setRecording(recording === action ? null : action)}
+              onKeyDown={handleKeyDown(action)}
+              onBlur={() => recording === action && setRecording(null)}
+              className={`min-w-[4.5rem] px-2 py-1 rounded-lg font-bold transition-all ${
+                recording === action
+                  ? 'bg-rose-500 text-white'
+                  : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'
+              }`}
+            >
+              {recording === action ? 'Press keys…' : shortcuts[action] ? formatShortcut(shortcuts[action]) : '—'}
+            </button>
+          </li>
+        ))}
+      </ul>
+      <p className="text-[10px] text-slate-400">Backspace clears a shortcut, Escape cancels.</p>
+    </div>
+  );
+};
+
+export default ShortcutSettings;
@@ -0,0 +1,16 @@
+import React from 'react';
+
+// The app keeps working from memory; this only warns that changes may not survive a reload
+const StorageError: React.FC<{ message: string; onDismiss: () => void }> = ({ message, onDismiss }) => (
+  <div role="alert" className="fixed bottom-6 left-6 z-40 flex items-center gap-4 pl-5 pr-2 py-2 max-w-sm rounded-2xl bg-slate-900 dark:bg-white text-white dark:text-slate-900 shadow-2xl animate-in fade-in slide-in-from-bottom-2 duration-500">
+    <span className="text-sm font-semibold">{message}</span>
+    <button
+      onClick={onDismiss}
+      className="px-4 py-2 rounded-xl bg-rose-500 hover:bg-rose-600 text-white text-xs font-bold transition-all shrink-0"
+    >
+      Dismiss
+    </button>
+  </div>
+);
+
+export default StorageError;
@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+
+const MAX_PAUSE_REASON_LENGTH = 120;
+
+// Asked before a strict focus session is paused ('pause') or left early ('leave')
+const StrictModeDialog: React.FC<{
+  kind: 'pause' | 'leave';
+  pausesLeft: number;
+  maxPauses: number;
+  onPause: (reason: string) => void;
+  onGiveUp: () => void;
+  onCancel: () => void;
+}> = ({ kind, pausesLeft, maxPauses, onPause, onGiveUp, onCancel }) => {
+  const [reason, setReason] = useState('');
+  const canPause = kind === 'pause' && pausesLeft > 0;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const title = canPause ? 'Pause this session?' : kind === 'pause' ? 'No pauses left' : 'Give up this session?';
+  const message = canPause
+    ? `Strict mode allows ${maxPauses} ${maxPauses === 1 ? 'pause' : 'pauses'} per session. ${pausesLeft} left.`
+    : kind === 'pause'
+      ? `You've used all ${maxPauses} pauses for this session. Keep going, or give up and log it as abandoned.`
+      : "The session will be logged as abandoned, with the time you've focused so far.";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md animate-in fade-in duration-300" onClick={onCancel}>
+      <div
+        className="bg-white dark:bg-slate-900 w-full max-w-sm rounded-3xl p-6 shadow-2xl border border-slate-100 dark:border-slate-800 space-y-4 animate-in zoom-in-95 duration-500"
+        role="dialog"
+        aria-label={title}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div>
+          <span className="text-lg font-bold text-slate-800 dark:text-white block">{title}</span>
+          <span className="text-sm text-slate-500">{message}</span>
+        </div>
+        {canPause && (
+          <input
+            autoFocus
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') onPause(reason.trim()); }}
+            maxLength={MAX_PAUSE_REASON_LENGTH}
+            placeholder="Why are you pausing? (optional)"
+            className="w-full px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-sm outline-hidden focus:border-rose-400"
+          />
+        )}
+        <div className="flex justify-end gap-2">
+          <button
+            autoFocus={!canPause}
+            onClick={onCancel}
+            className="px-4 py-2 rounded-xl bg-rose-500 text-white text-sm font-semibold hover:bg-rose-600 transition-colors"
+          >
+            Keep Focusing
+          </button>
+          <button
+            onClick={canPause ? () => onPause(reason.trim()) : onGiveUp}
+            className="px-4 py-2 rounded-xl text-sm font-semibold text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+          >
+            {canPause ? 'Pause' : 'Give Up'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StrictModeDialog;
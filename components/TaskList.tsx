@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { SessionRecord, TaskList as TaskListState } from '../types';
+import { countTaskSessions, createTask, getProjects } from '../utils/tasks';
+
+const TaskList: React.FC<{
+  taskList: TaskListState;
+  sessions: SessionRecord[];
+  onChange: (taskList: TaskListState) => void;
+}> = ({ taskList, sessions, onChange }) => {
+  const [title, setTitle] = useState('');
+  const [project, setProject] = useState('');
+  const [estimate, setEstimate] = useState(1);
+  const projects = getProjects(taskList.tasks);
+
+  const addTask = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+    const task = createTask(title, project, estimate);
+    onChange({
+      tasks: [...taskList.tasks, task],
+      // The first task added becomes active so the next session is credited straight away
+      activeTaskId: taskList.activeTaskId ?? task.id,
+    });
+    setTitle('');
+    setEstimate(1);
+  };
+
+  const toggleDone = (id: string) => {
+    const tasks = taskList.tasks.map((t) => (t.id === id ? { ...t, done: !t.done } : t));
+    const finished = tasks.find((t) => t.id === id)?.done;
+    onChange({ tasks, activeTaskId: finished && taskList.activeTaskId === id ? null : taskList.activeTaskId });
+  };
+
+  const removeTask = (id: string) => {
+    onChange({
+      tasks: taskList.tasks.filter((t) => t.id !== id),
+      activeTaskId: taskList.activeTaskId === id ? null : taskList.activeTaskId,
+    });
+  };
+
+  const setActive = (id: string) => {
+    onChange({ ...taskList, activeTaskId: taskList.activeTaskId === id ? null : id });
+  };
+
+  return (
+    <div className="w-full max-w-2xl bg-white dark:bg-slate-900 rounded-3xl p-8 shadow-xs border border-slate-100 dark:border-slate-800 animate-in fade-in slide-in-from-bottom-8 duration-700">
+      <div className="flex justify-between items-center mb-6">
+        <span className="text-sm font-bold text-slate-700 dark:text-slate-300">Tasks</span>
+        <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">
+          {taskList.tasks.filter((t) => !t.done).length} open
+        </span>
+      </div>
+
+      <form onSubmit={addTask} className="flex flex-wrap gap-2 mb-6">
+        <input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="What are you working on?"
+          className="flex-1 min-w-[10rem] px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 text-sm outline-hidden focus:ring-2 focus:ring-rose-500/40"
+        />
+        <input
+          value={project}
+          onChange={(e) => setProject(e.target.value)}
+          placeholder="Project"
+          list="focusforge-projects"
+          className="w-32 px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 text-sm outline-hidden focus:ring-2 focus:ring-rose-500/40"
+        />
+        <datalist id="focusforge-projects">
+          {projects.map((p) => <option key={p} value={p} />)}
+        </datalist>
+        <input
+          type="number" min="1" max="20"
+          value={estimate}
+          onChange={(e) => setEstimate(Math.max(1, parseInt(e.target.value) || 1))}
+          title="Estimated pomodoros"
+          className="w-16 px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 text-sm text-center tabular-nums outline-hidden focus:ring-2 focus:ring-rose-500/40"
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 bg-rose-500 hover:bg-rose-600 text-white text-sm font-bold rounded-xl transition-all active:scale-[0.98]"
+        >
+          Add
+        </button>
+      </form>
+
+      {taskList.tasks.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-4">Add a task, then pick it before pressing play.</p>
+      ) : (
+        <ul className="space-y-2">
+          {taskList.tasks.map((task) => {
+            const isActive = taskList.activeTaskId === task.id;
+            const done = countTaskSessions(sessions, task.id);
+            return (
+              <li
+                key={task.id}
+                className={`flex items-center gap-3 px-4 py-3 rounded-2xl border transition-all ${
+                  isActive
+                    ? 'border-rose-200 dark:border-rose-800 bg-rose-50 dark:bg-rose-900/20'
+                    : 'border-slate-100 dark:border-slate-800'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={task.done}
+                  onChange={() => toggleDone(task.id)}
+                  className="accent-rose-500 w-4 h-4 cursor-pointer"
+                  title="Mark as done"
+                />
+                <button
+                  onClick={() => !task.done && setActive(task.id)}
+                  disabled={task.done}
+                  className="flex-1 flex items-center gap-2 text-left min-w-0"
+                  title={isActive ? 'Active task' : 'Set as active task'}
+                >
+                  <span className={`text-sm font-semibold truncate ${task.done ? 'line-through text-slate-400' : 'text-slate-700 dark:text-slate-200'}`}>
+                    {task.title}
+                  </span>
+                  {task.project && (
+                    <span className="text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-500 shrink-0">
+                      {task.project}
+                    </span>
+                  )}
+                </button>
+                <span className="text-xs font-bold tabular-nums text-slate-400 shrink-0">
+                  {done}/{task.estimatedPomodoros}
+                </span>
+                <button
+                  onClick={() => removeTask(task.id)}
+                  className="p-1 rounded-lg text-slate-300 hover:text-slate-600 dark:hover:text-slate-200 transition-colors"
+                  title="Delete task"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TaskList;
@@ -0,0 +1,26 @@
+import React, { useEffect } from 'react';
+
+const UNDO_VISIBLE_MS = 10000;
+
+// The change stays undoable from the command palette after the toast goes away.
+// Render with a new key per change so the countdown starts over.
+const UndoToast: React.FC<{ label: string; onUndo: () => void; onDismiss: () => void }> = ({ label, onUndo, onDismiss }) => {
+  useEffect(() => {
+    const timeout = window.setTimeout(onDismiss, UNDO_VISIBLE_MS);
+    return () => clearTimeout(timeout);
+  }, []);
+
+  return (
+    <div className="fixed bottom-6 right-6 z-40 flex items-center gap-4 pl-5 pr-2 py-2 rounded-2xl bg-slate-900 dark:bg-white text-white dark:text-slate-900 shadow-2xl animate-in fade-in slide-in-from-bottom-2 duration-500">
+      <span className="text-sm font-semibold">{label}</span>
+      <button
+        onClick={onUndo}
+        className="px-4 py-2 rounded-xl bg-rose-500 hover:bg-rose-600 text-white text-xs font-bold transition-all"
+      >
+        Undo
+      </button>
+    </div>
+  );
+};
+
+export default UndoToast;
@@ -0,0 +1,19 @@
+import React from 'react';
+
+// Reloading mid-session would cut the countdown short, so the button waits until the session is over
+const UpdatePrompt: React.FC<{ canReload: boolean; onReload: () => void }> = ({ canReload, onReload }) => (
+  <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-4 pl-5 pr-2 py-2 rounded-2xl bg-slate-900 dark:bg-white text-white dark:text-slate-900 shadow-2xl animate-in fade-in slide-in-from-bottom-2 duration-500">
+    <span className="text-sm font-semibold">
+      {canReload ? 'A new version of FocusForge is ready.' : 'A new version is ready — it will wait until this session ends.'}
+    </span>
+    <button
+      onClick={onReload}
+      disabled={!canReload}
+      className="px-4 py-2 rounded-xl bg-rose-500 hover:bg-rose-600 text-white text-xs font-bold transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+    >
+      Update
+    </button>
+  </div>
+);
+
+export default UpdatePrompt;
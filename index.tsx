@@ -2,6 +2,10 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import './index.css';
+import { getAppData, initStorage, setStorageAdapter } from './utils/storage';
+import { createMemoryAdapter } from './utils/storageAdapters';
+import { registerServiceWorker } from './utils/serviceWorker';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -9,8 +13,19 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+registerServiceWorker();
+initStorage()
+  .then(getAppData)
+  // A backend that fails part-way through loading is swapped for memory, so the app
+  // still opens with defaults and warns that nothing will be kept
+  .catch(() => {
+    setStorageAdapter(createMemoryAdapter());
+    return getAppData();
+  })
+  .then((initialData) => {
+    root.render(
+      <React.StrictMode>
+        <App initialData={initialData} />
+      </React.StrictMode>
+    );
+  });
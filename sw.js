@@ -0,0 +1,61 @@
+// FocusForge service worker. The build fills PRECACHE with the list of output
+// files (see vite.config.ts), so every release gets a new worker and its own
+// cache. In development the list is empty and nothing is cached.
+
+const PRECACHE = self.__PRECACHE__ || { version: 'dev', files: [] };
+const CACHE = `focusforge-${PRECACHE.version}`;
+const isCaching = PRECACHE.files.length > 0;
+
+const scoped = (file) => new URL(file, self.registration.scope).href;
+
+self.addEventListener('install', (event) => {
+  if (!isCaching) return;
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE);
+    await cache.addAll(PRECACHE.files.map(scoped));
+  })());
+  // No skipWaiting() here: a new version waits until the page asks for it, so a
+  // running session is never reloaded from under the user
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys
+      .filter((key) => key.startsWith('focusforge-') && key !== CACHE)
+      .map((key) => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'skip-waiting') self.skipWaiting();
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (!isCaching || request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(caches.match(scoped('index.html')).then((cached) => cached || fetch(request)));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(caches.match(request).then((cached) => cached || fetch(request)));
+  }
+});
+
+self.addEventListener('notificationclick', (event) => {
+  const { notification, action } = event;
+  notification.close();
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const client = windows.find((w) => w.focused) || windows[0];
+    if (!client) {
+      await self.clients.openWindow('./');
+      return;
+    }
+    await client.focus();
+    client.postMessage({ type: 'notification-action', action: action || null, mode: notification.data && notification.data.mode });
+  })());
+});
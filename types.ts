@@ -1,25 +1,161 @@
+export type TimerMode = 'focus' | 'break' | 'longBreak';
+export type AmbientSoundType = 'rain' | 'cafe' | 'white' | 'brown' | 'ocean' | 'fire' | 'thunder' | 'binaural';
 
-export type TimerMode = 'focus' | 'break';
-export type AmbientSoundType = 'rain' | 'cafe' | 'white';
+export interface SessionRecord {
+  id: string;
+  mode: TimerMode;
+  startedAt: string; // ISO Date
+  endedAt: string; // ISO Date
+  plannedSeconds: number;
+  actualSeconds: number; // time the timer was actually running
+  completed: boolean; // false when the session was abandoned early
+  taskId?: string; // task the session was credited to, if one was active
+  profileId?: string; // timer profile the session ran under
+  interruptions?: Interruption[]; // focus sessions only; missing on sessions logged before interruptions were tracked
+  manual?: boolean; // entered by hand in the history editor rather than timed
+  note?: string; // reflection written after a focus session
+  rating?: number; // 1 to 5, how focused the session felt
+}
+
+export type InterruptionSource = 'internal' | 'external';
+
+export interface Interruption {
+  at: string; // ISO Date
+  kind: 'distraction' | 'pause'; // logged with the distraction marker, or the timer was paused
+  source: InterruptionSource | null; // null until the user says what caused a pause
+  reason?: string; // typed when pausing in strict mode
+}
+
+export interface Task {
+  id: string;
+  title: string;
+  project: string | null; // optional grouping, matched by name
+  estimatedPomodoros: number;
+  done: boolean;
+  createdAt: string; // ISO Date
+}
+
+export interface TaskList {
+  tasks: Task[];
+  activeTaskId: string | null;
+}
+
+export type TimerStatus = 'idle' | 'running' | 'paused';
+
+export interface TimerState {
+  mode: TimerMode;
+  status: TimerStatus;
+  endsAt: number | null; // epoch ms when a running countdown reaches zero
+  remainingSeconds: number; // authoritative while idle or paused; negative in overtime
+  plannedSeconds: number;
+  sessionStartedAt: string | null; // ISO Date, set when the session is first started
+  cycleCount: number; // focus sessions completed since the last long break
+  interruptions: Interruption[]; // logged during the current focus session
+}
 
 export interface UserStats {
-  todaySessions: number;
-  weekSessions: number;
-  dailyGoal: number;
+  todaySessions: number; // derived from sessions
+  weekSessions: number; // derived from sessions
+  goals: Goal[]; // oldest first; past days are judged by the goal in effect on them
   lastUpdate: string; // ISO Date
-  weekStartDate: string; // ISO Date
-  totalMinutesToday: number;
-  totalMinutesWeek: number;
-  longestStreak: number;
-  currentStreak: number;
-  history: { [date: string]: number }; // ISO date string -> session count
+  weekStartDate: string; // ISO Date, derived: start of the current calendar week
+  totalMinutesToday: number; // derived from sessions
+  totalMinutesWeek: number; // derived from sessions
+  longestStreak: number; // derived from sessions
+  currentStreak: number; // derived from sessions
+  history: { [date: string]: number }; // ISO date string -> session count recorded before the session log existed
+  sessions: SessionRecord[];
+}
+
+export interface Goal {
+  effectiveFrom: string; // YYYY-MM-DD; the oldest goal also covers every day before it
+  dailySessions: number[]; // 7 entries, 0 = Sunday; 0 means no goal that day
+  weeklySessions: number; // 0 = no weekly target
+  weeklyMinutes: number; // 0 = no weekly target
 }
 
 export interface AppSettings {
   darkMode: boolean;
   ambientSound: boolean;
-  ambientSoundType: AmbientSoundType;
-  ambientVolume: number; // 0 to 1
+  ambientLayers: AmbientLayer[]; // the mix that plays when ambientSound is on
+  ambientMixes: AmbientMix[]; // saved mixes
+  ambientVolume: number; // 0 to 1, master volume for every layer
+  ambientTracks: AmbientTrack[]; // user-supplied audio files; the audio itself is stored separately
+  ambientDuringBreaks: 'play' | 'duck' | 'mute';
+  ambientStopsOnPause: boolean;
   focusDuration: number; // in minutes
   breakDuration: number; // in minutes
+  longBreakDuration: number; // in minutes
+  longBreakInterval: number; // focus sessions per cycle before a long break
+  focusOvertime: boolean; // focus keeps counting past zero until finished by hand
+  flowtime: boolean; // focus is an open-ended stopwatch and breaks are sized from it
+  flowtimeBreakRatio: number; // Flowtime breaks last the focus time divided by this
+  strictMode: boolean; // pausing or leaving a started focus session has to be confirmed
+  strictMaxPauses: number; // pauses allowed per focus session in strict mode
+  autoStartBreaks: boolean;
+  autoStartFocus: boolean;
+  weekStartsOn: 0 | 1; // 0 = Sunday, 1 = Monday
+  streakRequiresGoal: boolean; // only days meeting their daily goal extend the streak
+  streakFreezesPerMonth: number; // missed days per month that don't break the streak
+  profiles: TimerProfile[];
+  activeProfileId: string | null; // profile the timer fields above were last loaded from
+  shortcuts: Record<ShortcutAction, string>; // e.g. "Space", "Shift+F", "Mod+K"
+  systemNotifications: boolean; // opt-in; also needs the browser's notification permission
+  alertSounds: Record<AlertTransition, AlertSound>;
+  alertVolume: number; // 0 to 1
+  alertRepeat: boolean; // keep ringing until the user clicks or presses a key
+  tickingDuringFocus: boolean;
+  askForReflection: boolean; // offer a note and rating when a focus session ends
+}
+
+export type AlertSound = 'sweep' | 'bell' | 'chime' | 'marimba' | 'digital' | 'soft' | 'none';
+
+// The end of a break covers long breaks too
+export type AlertTransition = 'focusEnd' | 'breakEnd';
+
+// One sound in the ambient mix; a mix holds each sound at most once
+export interface AmbientLayer {
+  type: AmbientSoundType | 'track';
+  volume: number; // 0 to 1, relative to the master volume
+  muted: boolean;
+  beatHz?: number; // binaural layers only: difference between the left and right tones
+  trackId?: string; // track layers only
+}
+
+export interface AmbientTrack {
+  id: string;
+  name: string;
+}
+
+export interface AmbientMix {
+  id: string;
+  name: string;
+  layers: AmbientLayer[];
+}
+
+export type ShortcutAction =
+  | 'toggleTimer'
+  | 'resetTimer'
+  | 'focusPhase'
+  | 'breakPhase'
+  | 'longBreakPhase'
+  | 'toggleFocusMode'
+  | 'toggleFullscreen'
+  | 'toggleAmbientSound'
+  | 'toggleDarkMode'
+  | 'openSettings'
+  | 'openCommandPalette'
+  | 'logDistraction'
+  | 'undoHistoryChange'
+  | 'finishSession';
+
+// The settings a timer profile bundles; switching profile copies these into AppSettings
+export type ProfileSettings = Pick<
+  AppSettings,
+  'focusDuration' | 'breakDuration' | 'longBreakDuration' | 'longBreakInterval' | 'autoStartBreaks' | 'autoStartFocus' | 'ambientSound' | 'ambientLayers'
+>;
+
+export interface TimerProfile extends ProfileSettings {
+  id: string;
+  name: string;
 }
@@ -0,0 +1,104 @@
+import { AmbientLayer, AmbientMix, AmbientSoundType, AmbientTrack, AppSettings, TimerState } from '../types';
+import { createId } from './sessions';
+import { DEFAULT_BINAURAL_BEAT_HZ } from './soundscapes';
+
+export const AMBIENT_SOUND_LABELS: Record<AmbientSoundType, string> = {
+  rain: 'Rain',
+  cafe: 'Café',
+  white: 'White Noise',
+  brown: 'Brown Noise',
+  ocean: 'Ocean Waves',
+  fire: 'Fireplace',
+  thunder: 'Thunderstorm',
+  binaural: 'Binaural Beats',
+};
+
+export const BUILT_IN_MIXES: AmbientMix[] = [
+  {
+    id: 'rainy-cafe',
+    name: 'Rainy Café',
+    layers: [
+      { type: 'rain', volume: 0.8, muted: false },
+      { type: 'cafe', volume: 0.45, muted: false },
+    ],
+  },
+  {
+    id: 'soft-static',
+    name: 'Soft Static',
+    layers: [
+      { type: 'white', volume: 0.25, muted: false },
+      { type: 'rain', volume: 0.6, muted: false },
+    ],
+  },
+  {
+    id: 'stormy-cabin',
+    name: 'Stormy Cabin',
+    layers: [
+      { type: 'thunder', volume: 0.7, muted: false },
+      { type: 'fire', volume: 0.8, muted: false },
+    ],
+  },
+  {
+    id: 'seaside',
+    name: 'Seaside',
+    layers: [
+      { type: 'ocean', volume: 0.9, muted: false },
+      { type: 'brown', volume: 0.2, muted: false },
+    ],
+  },
+];
+
+export const createLayer = (type: AmbientSoundType): AmbientLayer =>
+  type === 'binaural' ? { type, volume: 1, muted: false, beatHz: DEFAULT_BINAURAL_BEAT_HZ } : { type, volume: 1, muted: false };
+
+export const createMix = (name: string, layers: AmbientLayer[]): AmbientMix => ({
+  id: createId(),
+  name: name.trim(),
+  layers: layers.map((layer) => ({ ...layer })),
+});
+
+// Identifies a layer within a mix: its sound type, or the track it plays
+export const getLayerKey = (layer: AmbientLayer) => (layer.type === 'track' ? `track:${layer.trackId}` : layer.type);
+
+export const sameLayers = (a: AmbientLayer[], b: AmbientLayer[]) =>
+  a.length === b.length &&
+  a.every((layer) =>
+    b.some((other) => getLayerKey(other) === getLayerKey(layer) && other.volume === layer.volume && other.muted === layer.muted && other.beatHz === layer.beatHz)
+  );
+
+export const getAudibleLayers = (layers: AmbientLayer[]) => layers.filter((layer) => !layer.muted && layer.volume > 0);
+
+export const MAX_TRACK_BYTES = 30 * 1024 * 1024;
+
+export const createTrack = (fileName: string): AmbientTrack => ({
+  id: createId(),
+  name: fileName.replace(/\.[^.]+$/, '').slice(0, 40) || 'My track',
+});
+
+export const createTrackLayer = (track: AmbientTrack): AmbientLayer => ({ type: 'track', trackId: track.id, volume: 1, muted: false });
+
+// Deleting a track also takes it out of the current mix, saved mixes and profiles
+export const removeTrack = (settings: AppSettings, trackId: string): AppSettings => {
+  const without = (layers: AmbientLayer[]) => layers.filter((layer) => layer.trackId !== trackId);
+  return {
+    ...settings,
+    ambientTracks: settings.ambientTracks.filter((track) => track.id !== trackId),
+    ambientLayers: without(settings.ambientLayers),
+    ambientMixes: settings.ambientMixes
+      .map((mix) => ({ ...mix, layers: without(mix.layers) }))
+      .filter((mix) => mix.layers.length > 0),
+    profiles: settings.profiles.map((profile) => ({ ...profile, ambientLayers: without(profile.ambientLayers) })),
+  };
+};
+
+export const AMBIENT_DUCK_LEVEL = 0.25;
+
+/**
+ * How loud the ambient mix should be for the timer's current phase: full during
+ * focus, then per settings during breaks and while paused. 0 means stopped.
+ */
+export const getAmbientLevel = (settings: AppSettings, timer: TimerState): number => {
+  if (timer.status === 'paused' && settings.ambientStopsOnPause) return 0;
+  if (timer.mode === 'focus' || settings.ambientDuringBreaks === 'play') return 1;
+  return settings.ambientDuringBreaks === 'duck' ? AMBIENT_DUCK_LEVEL : 0;
+};
@@ -1,10 +1,26 @@
 
-import { AmbientSoundType } from '../types';
+import { AlertSound, AmbientLayer } from '../types';
+import { createTickBuffer, playChime } from './chimes';
+import { getAudibleLayers, getLayerKey } from './ambient';
+import { Soundscape, startSoundscape } from './soundscapes';
+import { getAmbientTrack } from './storage';
 
 let audioCtx: AudioContext | null = null;
-let activeSource: AudioBufferSourceNode | null = null;
 let masterGain: GainNode | null = null;
 let fadeGain: GainNode | null = null;
+let duckGain: GainNode | null = null;
+
+// Every layer plays through its own gain into the shared fade, duck and master gains:
+// soundscape -> layer gain -> fader -> duck -> master -> speakers
+interface LayerNodes {
+  soundscape: Soundscape;
+  gain: GainNode;
+}
+const activeLayers = new Map<string, LayerNodes>();
+let isAmbientPlaying = false;
+
+// Decoded user tracks, kept for as long as the page is open
+const trackBuffers = new Map<string, Promise<AudioBuffer | null>>();
 
 const initAudio = () => {
   if (!audioCtx) {
@@ -12,122 +28,192 @@ const initAudio = () => {
     masterGain = audioCtx.createGain();
     fadeGain = audioCtx.createGain();
     fadeGain.gain.setValueAtTime(0, audioCtx.currentTime);
+    duckGain = audioCtx.createGain();
     
-    fadeGain.connect(masterGain);
+    fadeGain.connect(duckGain);
+    duckGain.connect(masterGain);
     masterGain.connect(audioCtx.destination);
   }
-  return { ctx: audioCtx, master: masterGain!, fader: fadeGain! };
+  return { ctx: audioCtx, master: masterGain!, fader: fadeGain!, duck: duckGain! };
+};
+
+/**
+ * Decodes an audio file with the app's AudioContext. Rejects when the browser
+ * can't play the format, which is how uploads are checked before being stored.
+ */
+export const decodeAudioFile = (data: ArrayBuffer): Promise<AudioBuffer> => {
+  const { ctx } = initAudio();
+  // decodeAudioData detaches the buffer it is given, and callers still need theirs
+  return ctx.decodeAudioData(data.slice(0));
 };
 
-const createNoiseBuffer = (ctx: AudioContext, type: AmbientSoundType) => {
-  const bufferSize = 2 * ctx.sampleRate;
-  const buffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
-  const output = buffer.getChannelData(0);
-
-  if (type === 'white') {
-    for (let i = 0; i < bufferSize; i++) {
-      output[i] = Math.random() * 2 - 1;
-    }
-  } else if (type === 'rain') {
-    // Pink noise approximation
-    let b0, b1, b2, b3, b4, b5, b6;
-    b0 = b1 = b2 = b3 = b4 = b5 = b6 = 0.0;
-    for (let i = 0; i < bufferSize; i++) {
-      const white = Math.random() * 2 - 1;
-      b0 = 0.99886 * b0 + white * 0.0555179;
-      b1 = 0.99332 * b1 + white * 0.0750759;
-      b2 = 0.96900 * b2 + white * 0.1538520;
-      b3 = 0.86650 * b3 + white * 0.3104856;
-      b4 = 0.55000 * b4 + white * 0.5329522;
-      b5 = -0.7616 * b5 - white * 0.0168980;
-      output[i] = b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362;
-      output[i] *= 0.11;
-      b6 = white * 0.115926;
-    }
-  } else if (type === 'cafe') {
-    // Brown noise for low hubbub
-    let lastOut = 0.0;
-    for (let i = 0; i < bufferSize; i++) {
-      const white = Math.random() * 2 - 1;
-      const out = (lastOut + (0.02 * white)) / 1.02;
-      output[i] = out * 3.5; // Gain compensation
-      lastOut = out;
-    }
+const loadTrackBuffer = (trackId: string) => {
+  if (!trackBuffers.has(trackId)) {
+    trackBuffers.set(trackId, getAmbientTrack(trackId)
+      .then((data) => (data ? decodeAudioFile(data) : null))
+      .catch(() => null));
   }
+  return trackBuffers.get(trackId)!;
+};
 
-  return buffer;
+// User tracks loop as they are; the audio is loaded on first use, so the layer may start a moment late
+const startTrack = (ctx: AudioContext, output: AudioNode, trackId: string): Soundscape => {
+  let source: AudioBufferSourceNode | null = null;
+  let stopped = false;
+  loadTrackBuffer(trackId).then((buffer) => {
+    if (!buffer || stopped) return;
+    source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    source.connect(output);
+    source.start();
+  });
+  return {
+    update: () => {},
+    stop: () => {
+      stopped = true;
+      try {
+        source?.stop();
+      } catch (e) {}
+    },
+  };
 };
 
-export const playNotification = () => {
+// Alert volume 1 is loud enough; the original fixed beep sat at 0.4 on this scale
+const ALERT_GAIN = 0.25;
+const TICK_GAIN = 0.08;
+
+let tickSource: AudioBufferSourceNode | null = null;
+let tickGain: GainNode | null = null;
+
+// Alerts bypass the ambient chain, so they're heard even with ambient sound off or ducked
+export const playAlert = (sound: AlertSound, volume: number) => {
   const { ctx } = initAudio();
-  const osc = ctx.createOscillator();
   const gain = ctx.createGain();
+  gain.gain.setValueAtTime(volume * ALERT_GAIN, ctx.currentTime);
+  gain.connect(ctx.destination);
+  const duration = playChime(ctx, gain, sound);
+  setTimeout(() => gain.disconnect(), (duration + 0.5) * 1000);
+};
 
-  osc.type = 'sine';
-  osc.frequency.setValueAtTime(880, ctx.currentTime);
-  osc.frequency.exponentialRampToValueAtTime(440, ctx.currentTime + 0.5);
+export const startTicking = (volume: number) => {
+  const { ctx } = initAudio();
+  if (!tickGain) {
+    tickGain = ctx.createGain();
+    tickGain.connect(ctx.destination);
+  }
+  tickGain.gain.setTargetAtTime(volume * TICK_GAIN, ctx.currentTime, 0.05);
+  if (tickSource) return;
+  tickSource = ctx.createBufferSource();
+  tickSource.buffer = createTickBuffer(ctx);
+  tickSource.loop = true;
+  tickSource.connect(tickGain);
+  tickSource.start();
+};
 
-  gain.gain.setValueAtTime(0.1, ctx.currentTime);
-  gain.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 0.5);
+export const stopTicking = () => {
+  if (!tickSource) return;
+  try {
+    tickSource.stop();
+  } catch (e) {}
+  tickSource.disconnect();
+  tickSource = null;
+};
 
-  osc.connect(gain);
+// Its own source and gain, so a preview never touches ticking that is already running for a session
+export const previewTicking = (volume: number, seconds: number) => {
+  const { ctx } = initAudio();
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(volume * TICK_GAIN, ctx.currentTime);
   gain.connect(ctx.destination);
+  const source = ctx.createBufferSource();
+  source.buffer = createTickBuffer(ctx);
+  source.loop = true;
+  source.connect(gain);
+  source.onended = () => gain.disconnect();
+  source.start();
+  source.stop(ctx.currentTime + seconds);
+};
+
+const startLayer = (ctx: AudioContext, fader: GainNode, layer: AmbientLayer): LayerNodes => {
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0, ctx.currentTime);
+  gain.connect(fader);
+
+  const soundscape = layer.type === 'track' ? startTrack(ctx, gain, layer.trackId ?? '') : startSoundscape(ctx, gain, layer.type, layer);
+  const nodes = { soundscape, gain };
+  activeLayers.set(getLayerKey(layer), nodes);
+  return nodes;
+};
+
+const stopLayer = (ctx: AudioContext, key: string) => {
+  const nodes = activeLayers.get(key);
+  if (!nodes) return;
+  activeLayers.delete(key);
+  nodes.gain.gain.setTargetAtTime(0, ctx.currentTime, 0.15);
+  setTimeout(() => {
+    nodes.soundscape.stop();
+    nodes.gain.disconnect();
+  }, 1000);
+};
 
-  osc.start();
-  osc.stop(ctx.currentTime + 0.5);
+/**
+ * Brings the running mix in line with `layers`: new sounds fade in, removed or
+ * muted ones fade out, and the rest glide to their new volume. Does nothing
+ * while ambient sound is off.
+ */
+export const setAmbientLayers = (layers: AmbientLayer[]) => {
+  if (!isAmbientPlaying || !audioCtx || !fadeGain) return;
+  const ctx = audioCtx;
+  const audible = getAudibleLayers(layers);
+
+  activeLayers.forEach((_, key) => {
+    if (!audible.some((layer) => getLayerKey(layer) === key)) stopLayer(ctx, key);
+  });
+  audible.forEach((layer) => {
+    const nodes = activeLayers.get(getLayerKey(layer)) ?? startLayer(ctx, fadeGain!, layer);
+    nodes.soundscape.update(layer);
+    nodes.gain.gain.setTargetAtTime(layer.volume, ctx.currentTime, 0.1);
+  });
 };
 
-export const startAmbientSound = (type: AmbientSoundType, volume: number) => {
+export const startAmbientSound = (layers: AmbientLayer[], volume: number) => {
   const { ctx, master, fader } = initAudio();
-  
-  if (activeSource) {
-    stopAmbientSound();
-  }
+  isAmbientPlaying = true;
 
   master.gain.setTargetAtTime(volume * 0.5, ctx.currentTime, 0.1);
-  
-  const buffer = createNoiseBuffer(ctx, type);
-  activeSource = ctx.createBufferSource();
-  activeSource.buffer = buffer;
-  activeSource.loop = true;
-
-  const filter = ctx.createBiquadFilter();
-  filter.type = 'lowpass';
-  
-  if (type === 'rain') {
-    filter.frequency.setValueAtTime(800, ctx.currentTime);
-  } else if (type === 'cafe') {
-    filter.frequency.setValueAtTime(400, ctx.currentTime);
-  } else {
-    filter.frequency.setValueAtTime(20000, ctx.currentTime);
-  }
+  setAmbientLayers(layers);
 
-  activeSource.connect(filter);
-  filter.connect(fader);
-  
-  activeSource.start();
+  fader.gain.cancelScheduledValues(ctx.currentTime);
+  fader.gain.setValueAtTime(fader.gain.value, ctx.currentTime);
   fader.gain.linearRampToValueAtTime(1.0, ctx.currentTime + 1.5); // Smooth fade in
 };
 
+// Lowers the whole mix without stopping it, e.g. to duck it during breaks; 1 is full level
+export const setAmbientLevel = (level: number) => {
+  const { ctx, duck } = initAudio();
+  duck.gain.setTargetAtTime(level, ctx.currentTime, 0.6);
+};
+
 export const updateAmbientVolume = (volume: number) => {
   if (!audioCtx || !masterGain) return;
   masterGain.gain.setTargetAtTime(volume * 0.5, audioCtx.currentTime, 0.1);
 };
 
 export const stopAmbientSound = () => {
-  if (!activeSource || !audioCtx || !fadeGain) return;
-  
+  if (!isAmbientPlaying || !audioCtx || !fadeGain) return;
+  isAmbientPlaying = false;
+
   const ctx = audioCtx;
-  const source = activeSource;
   const fader = fadeGain;
 
   fader.gain.cancelScheduledValues(ctx.currentTime);
+  fader.gain.setValueAtTime(fader.gain.value, ctx.currentTime);
   fader.gain.linearRampToValueAtTime(0, ctx.currentTime + 1.0); // Smooth fade out
-  
+
   setTimeout(() => {
-    try {
-      source.stop();
-    } catch (e) {}
-    if (activeSource === source) activeSource = null;
+    // Started again while fading out
+    if (isAmbientPlaying) return;
+    activeLayers.forEach((_, key) => stopLayer(ctx, key));
   }, 1100);
 };
@@ -0,0 +1,128 @@
+import { AppSettings, TaskList, UserStats } from '../types';
+import { deriveStats } from './sessions';
+import { isObject, isSessionRecord, isTask, migrate, Schema, SETTINGS_SCHEMA, STATS_SCHEMA, TASKS_SCHEMA } from './schema';
+
+// v2 records the schema version of each part, so older parts can be migrated on restore
+export const BACKUP_VERSION = 2;
+
+export interface BackupFile {
+  app: 'focusforge';
+  version: number;
+  exportedAt: string; // ISO Date
+  schemaVersions: { stats: number; settings: number; tasks: number };
+  stats: UserStats;
+  settings: AppSettings;
+  tasks: TaskList;
+}
+
+export type RestoreStrategy = 'merge' | 'replace';
+
+export const createBackup = (stats: UserStats, settings: AppSettings, tasks: TaskList): BackupFile => ({
+  app: 'focusforge',
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  schemaVersions: { stats: STATS_SCHEMA.version, settings: SETTINGS_SCHEMA.version, tasks: TASKS_SCHEMA.version },
+  stats,
+  settings,
+  tasks,
+});
+
+/**
+ * Brings one part of a backup up to the current schema. Version 1 backups don't
+ * record schema versions; every migration step leaves already-upgraded data
+ * alone, so they are run from the start.
+ */
+const migratePart = <T>(schema: Schema<T>, data: unknown, version: unknown): unknown => {
+  const from = typeof version === 'number' ? version : 0;
+  if (from > schema.version) throw new Error('This backup was made by a newer version of FocusForge.');
+  try {
+    return migrate(schema, data, from);
+  } catch (e) {
+    throw new Error('The backup could not be upgraded to this version of FocusForge.');
+  }
+};
+
+/**
+ * Parses and validates a backup file, migrating older backups to the current
+ * data format. Throws an Error with a user-facing
+ * message when the file is not a FocusForge backup or is damaged.
+ */
+export const parseBackup = (text: string): BackupFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (!isObject(data) || data.app !== 'focusforge') {
+    throw new Error('This is not a FocusForge backup.');
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of FocusForge.');
+  }
+  if (!isObject(data.stats) || !Array.isArray(data.stats.sessions) || !isObject(data.stats.history)) {
+    throw new Error('The backup has no session history.');
+  }
+  const badSession = data.stats.sessions.findIndex((s: unknown) => !isSessionRecord(s));
+  if (badSession !== -1) {
+    throw new Error(`Session #${badSession + 1} in the backup is malformed.`);
+  }
+  if (Object.values(data.stats.history).some((count) => typeof count !== 'number')) {
+    throw new Error('The daily history in the backup is malformed.');
+  }
+  if (!isObject(data.settings)) {
+    throw new Error('The backup has no settings.');
+  }
+  if (!isObject(data.tasks) || !Array.isArray(data.tasks.tasks) || !data.tasks.tasks.every(isTask)) {
+    throw new Error('The task list in the backup is malformed.');
+  }
+
+  const versions = isObject(data.schemaVersions) ? data.schemaVersions : {};
+  return {
+    ...data,
+    version: BACKUP_VERSION,
+    schemaVersions: { stats: STATS_SCHEMA.version, settings: SETTINGS_SCHEMA.version, tasks: TASKS_SCHEMA.version },
+    stats: migratePart(STATS_SCHEMA, data.stats, versions.stats),
+    settings: migratePart(SETTINGS_SCHEMA, data.settings, versions.settings),
+    tasks: migratePart(TASKS_SCHEMA, data.tasks, versions.tasks),
+  } as BackupFile;
+};
+
+const unionById = <T extends { id: string }>(current: T[], incoming: T[]): T[] => {
+  const ids = new Set(current.map((item) => item.id));
+  return [...current, ...incoming.filter((item) => !ids.has(item.id))];
+};
+
+/**
+ * Produces the data to load after a restore. `replace` takes the backup as-is;
+ * `merge` keeps the current settings and goal, and adds any sessions, tasks and
+ * archived days the current data doesn't have yet.
+ */
+export const restoreBackup = (
+  backup: BackupFile,
+  strategy: RestoreStrategy,
+  current: { stats: UserStats; settings: AppSettings; tasks: TaskList }
+) => {
+  if (strategy === 'replace') {
+    const settings = SETTINGS_SCHEMA.validate(backup.settings)?.value ?? current.settings;
+    return {
+      stats: deriveStats(STATS_SCHEMA.validate(backup.stats)?.value ?? current.stats, settings),
+      settings,
+      tasks: TASKS_SCHEMA.validate(backup.tasks)?.value ?? current.tasks,
+    };
+  }
+
+  const history = { ...backup.stats.history };
+  Object.keys(current.stats.history).forEach((key) => {
+    history[key] = Math.max(history[key] || 0, current.stats.history[key]);
+  });
+  const sessions = unionById(current.stats.sessions, backup.stats.sessions)
+    .sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+
+  return {
+    stats: deriveStats({ ...current.stats, history, sessions }, current.settings),
+    settings: current.settings,
+    tasks: { ...current.tasks, tasks: unionById(current.tasks.tasks, backup.tasks.tasks) },
+  };
+};
@@ -0,0 +1,122 @@
+import { AlertSound, AlertTransition } from '../types';
+
+/**
+ * Synthesized alert sounds. Each chime schedules its notes on `output` starting
+ * at `at` and returns how long it rings, in seconds.
+ */
+type Chime = (ctx: AudioContext, output: AudioNode, at: number) => number;
+
+const tone = (
+  ctx: AudioContext,
+  output: AudioNode,
+  { type = 'sine', frequency, at, attack = 0.005, decay, peak = 1 }: { type?: OscillatorType; frequency: number; at: number; attack?: number; decay: number; peak?: number }
+) => {
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.type = type;
+  osc.frequency.setValueAtTime(frequency, at);
+  gain.gain.setValueAtTime(0.0001, at);
+  gain.gain.exponentialRampToValueAtTime(peak, at + attack);
+  gain.gain.exponentialRampToValueAtTime(0.0001, at + attack + decay);
+  osc.connect(gain);
+  gain.connect(output);
+  osc.start(at);
+  osc.stop(at + attack + decay + 0.05);
+  osc.onended = () => gain.disconnect();
+};
+
+const CHIMES: Record<Exclude<AlertSound, 'none'>, Chime> = {
+  // The original FocusForge beep: a falling sine sweep
+  sweep: (ctx, output, at) => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(880, at);
+    osc.frequency.exponentialRampToValueAtTime(440, at + 0.5);
+    gain.gain.setValueAtTime(1, at);
+    gain.gain.exponentialRampToValueAtTime(0.1, at + 0.5);
+    osc.connect(gain);
+    gain.connect(output);
+    osc.start(at);
+    osc.stop(at + 0.5);
+    return 0.5;
+  },
+
+  // Inharmonic partials, like a struck bell
+  bell: (ctx, output, at) => {
+    [[1, 1], [2, 0.5], [2.76, 0.35], [5.4, 0.15]].forEach(([ratio, peak]) =>
+      tone(ctx, output, { frequency: 660 * ratio, at, decay: 2.5 / ratio, peak })
+    );
+    return 2.5;
+  },
+
+  // A rising major arpeggio
+  chime: (ctx, output, at) => {
+    [1046.5, 1318.5, 1568].forEach((frequency, i) => {
+      tone(ctx, output, { frequency, at: at + i * 0.18, decay: 0.8, peak: 0.7 });
+      tone(ctx, output, { type: 'triangle', frequency: frequency * 2, at: at + i * 0.18, decay: 0.3, peak: 0.15 });
+    });
+    return 1.2;
+  },
+
+  marimba: (ctx, output, at) => {
+    [784, 1046.5].forEach((frequency, i) => {
+      tone(ctx, output, { frequency, at: at + i * 0.15, decay: 0.35, peak: 0.9 });
+      tone(ctx, output, { frequency: frequency * 4, at: at + i * 0.15, decay: 0.08, peak: 0.2 });
+    });
+    return 0.6;
+  },
+
+  digital: (ctx, output, at) => {
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(3000, at);
+    filter.connect(output);
+    [0, 0.15, 0.3].forEach((offset) =>
+      tone(ctx, filter, { type: 'square', frequency: 1000, at: at + offset, attack: 0.002, decay: 0.08, peak: 0.35 })
+    );
+    return 0.45;
+  },
+
+  // A slow, quiet two-note swell for people who startle easily
+  soft: (ctx, output, at) => {
+    tone(ctx, output, { frequency: 440, at, attack: 0.3, decay: 1.6, peak: 0.6 });
+    tone(ctx, output, { frequency: 554.4, at: at + 0.25, attack: 0.3, decay: 1.6, peak: 0.45 });
+    return 2.2;
+  },
+};
+
+export const ALERT_SOUND_LABELS: Record<AlertSound, string> = {
+  sweep: 'Sweep',
+  bell: 'Bell',
+  chime: 'Chime',
+  marimba: 'Marimba',
+  digital: 'Digital',
+  soft: 'Soft Swell',
+  none: 'Silent',
+};
+
+export const ALERT_SOUNDS = Object.keys(ALERT_SOUND_LABELS) as AlertSound[];
+
+export const ALERT_TRANSITION_LABELS: Record<AlertTransition, string> = {
+  focusEnd: 'Focus ends',
+  breakEnd: 'Break ends',
+};
+
+export const playChime = (ctx: AudioContext, output: AudioNode, sound: AlertSound): number =>
+  sound === 'none' ? 0 : CHIMES[sound](ctx, output, ctx.currentTime + 0.02);
+
+// Two seconds of "tick ... tock", looped for the ticking clock during focus
+export const createTickBuffer = (ctx: BaseAudioContext) => {
+  const buffer = ctx.createBuffer(1, 2 * ctx.sampleRate, ctx.sampleRate);
+  const output = buffer.getChannelData(0);
+  [[0, 2200], [ctx.sampleRate, 1800]].forEach(([start, frequency]) => {
+    const length = Math.floor(0.025 * ctx.sampleRate);
+    for (let i = 0; i < length; i++) {
+      const t = i / ctx.sampleRate;
+      // A short decaying click: a high sine with a little noise on the attack
+      output[start + i] = (Math.sin(2 * Math.PI * frequency * t) * 0.8 + (Math.random() * 2 - 1) * 0.2) * Math.exp(-t * 220);
+    }
+  });
+  return buffer;
+};
@@ -0,0 +1,41 @@
+/**
+ * Returns a YYYY-MM-DD string in LOCAL time.
+ * This is crucial for consistent tracking across timezones.
+ */
+export const getDateKey = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+// Calendar-day arithmetic that stays correct across DST changes
+export const addDays = (date: Date, days: number): Date => {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d;
+};
+
+// Midnight LOCAL time on the first day of the calendar week containing `date`
+export const getWeekStart = (date: Date, weekStartsOn: number): Date => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  return addDays(start, -((start.getDay() - weekStartsOn + 7) % 7));
+};
+
+// Inverse of getDateKey: midnight LOCAL time of the given YYYY-MM-DD key
+export const parseDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Weekday indexes in display order, starting on the user's first day of the week
+export const getWeekdayOrder = (weekStartsOn: number) => Array.from({ length: 7 }, (_, i) => (weekStartsOn + i) % 7);
+
+export const formatMinutes = (m: number) => {
+  const rounded = Math.round(m);
+  const hours = Math.floor(rounded / 60);
+  const mins = rounded % 60;
+  return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+};
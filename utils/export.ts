@@ -0,0 +1,200 @@
+import { Task, TimerProfile, UserStats } from '../types';
+import { getDailyCounts, getDailyMinutes } from './sessions';
+import { MODE_LABELS } from './timer';
+import { formatChange, formatComparison, formatHour, formatReportDay, getChange, InsightReport, REPORT_PERIOD_LABELS } from './reports';
+import { formatMinutes, getWeekdayOrder, WEEKDAY_LABELS } from './date';
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Text starting like a formula would be run by spreadsheet apps, so it is prefixed to stay text
+const csvCell = (value: string | number | boolean) => {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: (string | number | boolean)[][]) => rows.map((row) => row.map(csvCell).join(',')).join('\r\n');
+
+// One row per day, oldest first. Days from before the session log have no minutes.
+export const historyToCsv = (stats: UserStats): string => {
+  const counts = getDailyCounts(stats);
+  const minutes = getDailyMinutes(stats);
+  const rows = Object.keys(counts).sort().map((date) => [date, counts[date], Math.round(minutes[date] || 0)]);
+  return toCsv([['date', 'focus_sessions', 'focus_minutes'], ...rows]);
+};
+
+export const sessionsToCsv = (stats: UserStats, tasks: Task[], profiles: TimerProfile[]): string => {
+  const taskById = new Map(tasks.map((t) => [t.id, t] as const));
+  const profileById = new Map(profiles.map((p) => [p.id, p] as const));
+  const rows = stats.sessions.map((s) => {
+    const task = s.taskId ? taskById.get(s.taskId) : undefined;
+    return [
+      s.id,
+      s.mode,
+      s.startedAt,
+      s.endedAt,
+      Math.round(s.plannedSeconds / 60),
+      Math.round(s.actualSeconds / 60),
+      s.completed ? 'completed' : 'abandoned',
+      task?.title ?? '',
+      task?.project ?? '',
+      (s.profileId && profileById.get(s.profileId)?.name) ?? '',
+      s.interruptions?.length ?? '',
+      s.rating ?? '',
+      s.note ?? '',
+    ];
+  });
+  return toCsv([['id', 'mode', 'started_at', 'ended_at', 'planned_minutes', 'actual_minutes', 'status', 'task', 'project', 'profile', 'interruptions', 'rating', 'note'], ...rows]);
+};
+
+const icsDate = (iso: string) => new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const icsText = (text: string) => text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
+
+const utf8 = new TextEncoder();
+
+// RFC 5545 caps content lines at 75 octets of UTF-8; longer ones continue on a line
+// starting with a space, which counts towards that line. Characters are never split.
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8.encode(char).length;
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+/** Focus sessions as calendar events, so focus blocks can be overlaid on a calendar. */
+export const sessionsToIcs = (stats: UserStats, tasks: Task[]): string => {
+  const taskById = new Map(tasks.map((t) => [t.id, t] as const));
+  const stamp = icsDate(new Date().toISOString());
+  const events = stats.sessions
+    .filter((s) => s.mode === 'focus')
+    .flatMap((s) => {
+      const task = s.taskId ? taskById.get(s.taskId) : undefined;
+      const summary = `${MODE_LABELS[s.mode]}${task ? `: ${task.title}` : ''}${s.completed ? '' : ' (abandoned)'}`;
+      return [
+        'BEGIN:VEVENT',
+        `UID:${s.id}@focusforge`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${icsDate(s.startedAt)}`,
+        `DTEND:${icsDate(s.endedAt)}`,
+        `SUMMARY:${icsText(summary)}`,
+        ...(task?.project ? [`CATEGORIES:${icsText(task.project)}`] : []),
+        'END:VEVENT',
+      ];
+    });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//FocusForge//Focus Sessions//EN',
+    'CALSCALE:GREGORIAN',
+    ...events,
+    'END:VCALENDAR',
+  ].map(foldLine).join('\r\n') + '\r\n';
+};
+
+const htmlText = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const htmlBars = (rows: [string, number][]) => {
+  const max = Math.max(1, ...rows.map(([, value]) => value));
+  return `<div class="bars">${rows.map(([label, value]) => `
+    <div class="bar"><div class="fill" style="height:${(value / max) * 100}%"></div><span>${htmlText(label)}</span></div>`).join('')}
+  </div>`;
+};
+
+/**
+ * The report as a self-contained page with inline styles and no scripts, so it
+ * can be saved, emailed or printed to PDF from the browser.
+ */
+export const reportToHtml = (report: InsightReport, weekStartsOn: number): string => {
+  const { totals, previous } = report;
+  const title = `${REPORT_PERIOD_LABELS[report.period]} Focus Report · ${report.label}`;
+  const cards: [string, string, string][] = [
+    ['Focus time', formatMinutes(totals.focusMinutes), formatChange(getChange(totals.focusMinutes, previous.focusMinutes))],
+    ['Sessions', String(totals.sessions), formatChange(getChange(totals.sessions, previous.sessions))],
+    ['Average session', formatMinutes(totals.averageMinutes), formatChange(getChange(totals.averageMinutes, previous.averageMinutes))],
+    ['Completion rate', `${Math.round(totals.completionRate * 100)}%`, formatChange(getChange(totals.completionRate, previous.completionRate))],
+  ];
+  const days = [
+    ...(report.bestDay ? [['Best day', report.bestDay] as const] : []),
+    ...(report.worstDay ? [['Quietest day', report.worstDay] as const] : []),
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${htmlText(title)}</title>
+<style>
+  body { font-family: system-ui, -apple-system, sans-serif; color: #1e293b; max-width: 760px; margin: 40px auto; padding: 0 24px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 12px; text-transform: uppercase; letter-spacing: 0.08em; color: #94a3b8; margin: 32px 0 12px; }
+  .muted { color: #64748b; font-size: 13px; }
+  .cards { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; }
+  .card { border: 1px solid #e2e8f0; border-radius: 12px; padding: 14px; }
+  .card b { display: block; font-size: 20px; margin: 4px 0; }
+  .bars { display: flex; align-items: flex-end; gap: 4px; height: 140px; }
+  .bar { flex: 1; height: 100%; display: flex; flex-direction: column; justify-content: flex-end; align-items: center; }
+  .fill { width: 100%; background: #f43f5e; border-radius: 3px 3px 0 0; min-height: 1px; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  .bar span { font-size: 9px; color: #94a3b8; margin-top: 4px; }
+  table { border-collapse: collapse; width: 100%; font-size: 14px; }
+  td { padding: 6px 0; border-bottom: 1px solid #f1f5f9; }
+  @media print { body { margin: 0 auto; } }
+</style>
+</head>
+<body>
+<h1>${htmlText(title)}</h1>
+<p class="muted">${formatComparison(report)}. Generated ${htmlText(new Date().toLocaleString())}.</p>
+<div class="cards">${cards.map(([label, value, change]) => `
+  <div class="card"><span class="muted">${label}</span><b>${htmlText(value)}</b><span class="muted">${change}</span></div>`).join('')}
+</div>
+${report.archivedSessions > 0 ? `<p class="muted">Plus ${report.archivedSessions} archived sessions recorded before durations were tracked.</p>` : ''}
+<h2>Focus by hour of day</h2>
+${htmlBars(report.minutesByHour.map((minutes, hour) => [hour % 3 === 0 ? formatHour(hour) : '', minutes]))}
+<h2>Focus by day of week</h2>
+${htmlBars(getWeekdayOrder(weekStartsOn).map((day) => [WEEKDAY_LABELS[day], report.minutesByWeekday[day]]))}
+${days.length > 0 ? `<h2>Days</h2>
+<table>${days.map(([label, day]) => `
+  <tr><td>${label}</td><td>${htmlText(formatReportDay(day))}</td><td>${formatMinutes(day.minutes)} · ${day.sessions} sessions</td></tr>`).join('')}
+</table>` : ''}
+</body>
+</html>
+`;
+};
+
+// Prints through a hidden frame so the app itself isn't what ends up on paper
+export const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = html;
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) return;
+    win.onafterprint = () => frame.remove();
+    win.print();
+  };
+  document.body.appendChild(frame);
+};
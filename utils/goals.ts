@@ -0,0 +1,69 @@
+import { Goal, UserStats } from '../types';
+import { getDateKey, parseDateKey } from './date';
+
+export const DEFAULT_DAILY_GOAL = 4;
+
+// The first goal also judges every day before it, so it is dated before any possible session
+export const EARLIEST_GOAL_DATE = '0000-01-01';
+
+export const createGoal = (dailySessions: number, effectiveFrom: string = EARLIEST_GOAL_DATE): Goal => ({
+  effectiveFrom,
+  dailySessions: Array(7).fill(dailySessions),
+  weeklySessions: 0,
+  weeklyMinutes: 0,
+});
+
+const sameGoal = (a: Goal, b: Goal) =>
+  a.weeklySessions === b.weeklySessions &&
+  a.weeklyMinutes === b.weeklyMinutes &&
+  a.dailySessions.every((n, i) => n === b.dailySessions[i]);
+
+// The goal that applied on a day; days before the first goal use the first goal
+export const getGoalOn = (goals: Goal[], dateKey: string): Goal => {
+  let goal = goals[0] ?? createGoal(DEFAULT_DAILY_GOAL);
+  goals.forEach((g) => {
+    if (g.effectiveFrom <= dateKey) goal = g;
+  });
+  return goal;
+};
+
+export const getDailyGoal = (goals: Goal[], dateKey: string): number =>
+  getGoalOn(goals, dateKey).dailySessions[parseDateKey(dateKey).getDay()];
+
+/**
+ * Records a goal change taking effect today, leaving the goals that judged past
+ * days alone. Editing twice in one day keeps only the latest version, and a
+ * change back to the previous goal removes today's entry instead. The oldest goal
+ * is always kept, even if dated today, because it covers every day before it.
+ */
+export const setGoalFromToday = (goals: Goal[], goal: Omit<Goal, 'effectiveFrom'>, now: Date = new Date()): Goal[] => {
+  const todayKey = getDateKey(now);
+  const earlier = goals.filter((g, i) => i === 0 || g.effectiveFrom < todayKey);
+  const next = { ...goal, effectiveFrom: todayKey };
+  const previous = earlier[earlier.length - 1];
+  return previous && sameGoal(previous, next) ? earlier : [...earlier, next];
+};
+
+export interface GoalProgress {
+  id: 'day' | 'weekSessions' | 'weekMinutes';
+  label: string;
+  current: number;
+  target: number;
+  unit: 'sessions' | 'minutes';
+}
+
+// Progress towards every goal that is set for today and this week
+export const getGoalProgress = (stats: UserStats, now: Date = new Date()): GoalProgress[] => {
+  const todayKey = getDateKey(now);
+  const goal = getGoalOn(stats.goals, todayKey);
+  const daily = getDailyGoal(stats.goals, todayKey);
+  const progress: GoalProgress[] = [];
+  if (daily > 0) progress.push({ id: 'day', label: 'Today', current: stats.todaySessions, target: daily, unit: 'sessions' });
+  if (goal.weeklySessions > 0) {
+    progress.push({ id: 'weekSessions', label: 'This week', current: stats.weekSessions, target: goal.weeklySessions, unit: 'sessions' });
+  }
+  if (goal.weeklyMinutes > 0) {
+    progress.push({ id: 'weekMinutes', label: 'This week', current: stats.totalMinutesWeek, target: goal.weeklyMinutes, unit: 'minutes' });
+  }
+  return progress;
+};
@@ -0,0 +1,102 @@
+import { SessionRecord, TimerMode } from '../types';
+import { getDateKey } from './date';
+import { createSessionRecord } from './sessions';
+import { withReflection } from './reflections';
+
+// The fields the history editor lets the user set; everything else is kept or derived
+export interface SessionDraft {
+  mode: TimerMode;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM, local
+  minutes: number;
+  taskId: string | null;
+  completed: boolean;
+  note: string;
+  rating: number | null;
+}
+
+/**
+ * One edit to the session log: `before` is null for an added session and
+ * `after` is null for a deleted one. Undoing swaps the two.
+ */
+export interface HistoryChange {
+  label: string;
+  before: SessionRecord | null;
+  after: SessionRecord | null;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const createDraft = (dateKey: string, now: Date = new Date()): SessionDraft => ({
+  mode: 'focus',
+  date: dateKey,
+  time: `${pad(now.getHours())}:00`,
+  minutes: 25,
+  taskId: null,
+  completed: true,
+  note: '',
+  rating: null,
+});
+
+export const draftFromSession = (session: SessionRecord): SessionDraft => {
+  const start = new Date(session.startedAt);
+  return {
+    mode: session.mode,
+    date: getDateKey(start),
+    time: `${pad(start.getHours())}:${pad(start.getMinutes())}`,
+    minutes: Math.max(1, Math.round(session.actualSeconds / 60)),
+    taskId: session.taskId ?? null,
+    completed: session.completed,
+    note: session.note ?? '',
+    rating: session.rating ?? null,
+  };
+};
+
+/**
+ * Turns a draft into a session, keeping the id and anything the editor doesn't
+ * show (profile, interruptions) from `existing`. Throws an Error with a
+ * user-facing message when the draft can't be saved.
+ */
+export const sessionFromDraft = (draft: SessionDraft, existing: SessionRecord | null, now: Date = new Date()): SessionRecord => {
+  const [year, month, day] = draft.date.split('-').map(Number);
+  const [hours, minutes] = draft.time.split(':').map(Number);
+  const startedAt = new Date(year, month - 1, day, hours, minutes);
+  if (isNaN(startedAt.getTime())) throw new Error('Enter a valid date and start time.');
+  if (!Number.isInteger(draft.minutes) || draft.minutes < 1 || draft.minutes > 600) {
+    throw new Error('The duration must be between 1 and 600 minutes.');
+  }
+  const endedAt = new Date(startedAt.getTime() + draft.minutes * 60000);
+  if (endedAt > now) throw new Error("Sessions can't end in the future.");
+
+  const seconds = draft.minutes * 60;
+  const taskId = draft.mode === 'focus' ? draft.taskId : null;
+  if (!existing) {
+    const record = createSessionRecord(draft.mode, startedAt, endedAt, seconds, seconds, draft.completed, { taskId });
+    return withReflection({ ...record, manual: true }, draft.note, draft.rating);
+  }
+  const { taskId: _, ...rest } = existing;
+  return withReflection({
+    ...rest,
+    mode: draft.mode,
+    startedAt: startedAt.toISOString(),
+    endedAt: endedAt.toISOString(),
+    // A completed session ran for as long as it was planned
+    plannedSeconds: draft.completed ? seconds : Math.max(existing.plannedSeconds, seconds),
+    actualSeconds: seconds,
+    completed: draft.completed,
+    ...(taskId ? { taskId } : {}),
+  }, draft.note, draft.rating);
+};
+
+// Applies a change to the log by id, so sessions recorded in the meantime are kept
+export const applyHistoryChange = (sessions: SessionRecord[], change: HistoryChange): SessionRecord[] => {
+  const ids = [change.before?.id, change.after?.id];
+  const kept = sessions.filter((s) => !ids.includes(s.id));
+  return change.after ? [...kept, change.after] : kept;
+};
+
+export const invertHistoryChange = (change: HistoryChange): HistoryChange => ({
+  label: change.label,
+  before: change.after,
+  after: change.before,
+});
@@ -0,0 +1,45 @@
+import { InterruptionSource, SessionRecord } from '../types';
+import { getSessionDateKey } from './sessions';
+
+export const INTERRUPTION_SOURCE_LABELS: Record<InterruptionSource, string> = {
+  internal: 'Internal',
+  external: 'External',
+};
+
+export interface InterruptionSummary {
+  sessions: number; // focus sessions that tracked interruptions
+  interruptions: number;
+  perSession: number;
+  uninterruptedShare: number; // 0 to 1, of the completed sessions among them
+  internal: number;
+  external: number;
+  unexplained: number; // pauses the user didn't give a cause for
+}
+
+// Focus sessions logged before interruptions were tracked would all look uninterrupted
+const isTracked = (session: SessionRecord) => session.mode === 'focus' && session.interruptions !== undefined;
+
+export const summarizeInterruptions = (sessions: SessionRecord[]): InterruptionSummary => {
+  const tracked = sessions.filter(isTracked);
+  const all = tracked.flatMap((s) => s.interruptions ?? []);
+  const completed = tracked.filter((s) => s.completed);
+  const uninterrupted = completed.filter((s) => s.interruptions!.length === 0);
+  return {
+    sessions: tracked.length,
+    interruptions: all.length,
+    perSession: tracked.length > 0 ? all.length / tracked.length : 0,
+    uninterruptedShare: completed.length > 0 ? uninterrupted.length / completed.length : 0,
+    internal: all.filter((i) => i.source === 'internal').length,
+    external: all.filter((i) => i.source === 'external').length,
+    unexplained: all.filter((i) => i.source === null).length,
+  };
+};
+
+export const getDailyInterruptions = (sessions: SessionRecord[]): { [date: string]: number } => {
+  const counts: { [date: string]: number } = {};
+  sessions.filter(isTracked).forEach((s) => {
+    const key = getSessionDateKey(s);
+    counts[key] = (counts[key] || 0) + s.interruptions!.length;
+  });
+  return counts;
+};
@@ -0,0 +1,66 @@
+import { TimerMode } from '../types';
+import { MODE_LABELS } from './timer';
+
+export type NotificationAction = 'start' | 'skip';
+
+// Sent by the service worker when a notification or one of its buttons is clicked
+export interface NotificationActionMessage {
+  type: 'notification-action';
+  action: NotificationAction | null;
+  mode: TimerMode; // the phase the notification offered to start
+}
+
+export const isNotificationSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+// Must be called from a user gesture, or browsers silently deny the prompt
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!isNotificationSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+/**
+ * Announces that `finished` ended and `next` is up. Action buttons only exist
+ * on notifications shown through a service worker; without one, clicking the
+ * notification just brings the tab back.
+ */
+export const showPhaseNotification = async (finished: TimerMode, next: TimerMode, nextMinutes: number) => {
+  if (!isNotificationSupported() || Notification.permission !== 'granted') return;
+
+  const title = `${MODE_LABELS[finished]} complete`;
+  // A Flowtime focus session has no planned length (0), so it gets no duration
+  const length = nextMinutes > 0 ? `${Math.max(1, Math.round(nextMinutes))} min ` : '';
+  const body = finished === 'focus'
+    ? `Time for a ${length}${MODE_LABELS[next].toLowerCase()}.`
+    : nextMinutes > 0 ? `Ready for the next ${length}focus session?` : 'Start focusing when you are ready.';
+  const options: NotificationOptions & { actions?: { action: NotificationAction; title: string }[] } = {
+    body,
+    tag: 'focusforge-phase', // replaces an unread notification instead of stacking
+    data: { mode: next },
+    actions: next === 'focus'
+      ? [{ action: 'start', title: 'Start focus' }]
+      : [{ action: 'start', title: `Start ${MODE_LABELS[next].toLowerCase()}` }, { action: 'skip', title: 'Skip' }],
+  };
+
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration) {
+    await registration.showNotification(title, options);
+    return;
+  }
+  const { actions, ...plain } = options;
+  let notification: Notification;
+  try {
+    notification = new Notification(title, plain);
+  } catch (e) {
+    // Some browsers (Chrome on Android) only show notifications through a service worker
+    return;
+  }
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+};
+
+export const isNotificationActionMessage = (data: unknown): data is NotificationActionMessage =>
+  typeof data === 'object' && data !== null && (data as { type?: unknown }).type === 'notification-action';
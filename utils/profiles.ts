@@ -0,0 +1,85 @@
+import { AppSettings, ProfileSettings, TimerProfile } from '../types';
+import { createId } from './sessions';
+import { createLayer, sameLayers } from './ambient';
+
+export const PROFILE_FIELDS: (keyof ProfileSettings)[] = [
+  'focusDuration',
+  'breakDuration',
+  'longBreakDuration',
+  'longBreakInterval',
+  'autoStartBreaks',
+  'autoStartFocus',
+  'ambientSound',
+  'ambientLayers',
+];
+
+export const BUILT_IN_PROFILES: TimerProfile[] = [
+  {
+    id: 'pomodoro',
+    name: 'Pomodoro 25/5',
+    focusDuration: 25,
+    breakDuration: 5,
+    longBreakDuration: 15,
+    longBreakInterval: 4,
+    autoStartBreaks: false,
+    autoStartFocus: false,
+    ambientSound: false,
+    ambientLayers: [createLayer('rain')],
+  },
+  {
+    id: 'flow-52-17',
+    name: '52/17',
+    focusDuration: 52,
+    breakDuration: 17,
+    longBreakDuration: 30,
+    longBreakInterval: 3,
+    autoStartBreaks: true,
+    autoStartFocus: false,
+    ambientSound: false,
+    ambientLayers: [createLayer('white')],
+  },
+  {
+    id: 'deep-work-90-20',
+    name: 'Deep Work 90/20',
+    focusDuration: 90,
+    breakDuration: 20,
+    longBreakDuration: 30,
+    longBreakInterval: 2,
+    autoStartBreaks: true,
+    autoStartFocus: false,
+    ambientSound: true,
+    ambientLayers: [createLayer('rain')],
+  },
+];
+
+export const pickProfileSettings = (source: ProfileSettings): ProfileSettings =>
+  PROFILE_FIELDS.reduce((picked, key) => ({ ...picked, [key]: source[key] }), {} as ProfileSettings);
+
+export const matchesProfile = (settings: AppSettings, profile: TimerProfile) =>
+  PROFILE_FIELDS.every((key) =>
+    key === 'ambientLayers' ? sameLayers(settings.ambientLayers, profile.ambientLayers) : settings[key] === profile[key]
+  );
+
+export const applyProfile = (settings: AppSettings, profile: TimerProfile): AppSettings => ({
+  ...settings,
+  ...pickProfileSettings(profile),
+  activeProfileId: profile.id,
+});
+
+export const createProfile = (name: string, settings: AppSettings): TimerProfile => ({
+  id: createId(),
+  name: name.trim(),
+  ...pickProfileSettings(settings),
+});
+
+// Writes the current timer fields back into the active profile, so edits made in
+// settings stick to that profile the next time it is selected
+export const syncActiveProfile = (settings: AppSettings): AppSettings => ({
+  ...settings,
+  profiles: settings.profiles.map((p) =>
+    p.id === settings.activeProfileId ? { ...p, ...pickProfileSettings(settings) } : p
+  ),
+});
+
+export const getActiveProfile = (settings: AppSettings): TimerProfile | undefined =>
+  settings.profiles.find((p) => p.id === settings.activeProfileId);
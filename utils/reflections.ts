@@ -0,0 +1,62 @@
+import { SessionRecord } from '../types';
+import { addDays, getDateKey, getWeekStart } from './date';
+import { getSessionDateKey } from './sessions';
+
+export const MAX_NOTE_LENGTH = 500;
+
+export const RATINGS = [1, 2, 3, 4, 5];
+
+export const RATING_LABELS: Record<number, string> = {
+  1: 'Scattered',
+  2: 'Distracted',
+  3: 'Okay',
+  4: 'Focused',
+  5: 'Deep focus',
+};
+
+// Sets or clears the reflection on a session; an empty note or a null rating removes the field
+export const withReflection = (session: SessionRecord, note: string, rating: number | null): SessionRecord => {
+  const { note: _note, rating: _rating, ...rest } = session;
+  const trimmed = note.trim().slice(0, MAX_NOTE_LENGTH);
+  return {
+    ...rest,
+    ...(trimmed ? { note: trimmed } : {}),
+    ...(rating !== null ? { rating } : {}),
+  };
+};
+
+export const hasReflection = (session: SessionRecord) => session.note !== undefined || session.rating !== undefined;
+
+/** Sessions with a note or rating that match the search text and rating, newest first. */
+export const findReflections = (sessions: SessionRecord[], query: string, rating: number | null): SessionRecord[] => {
+  const needle = query.trim().toLowerCase();
+  return sessions
+    .filter(hasReflection)
+    .filter((s) => rating === null || s.rating === rating)
+    .filter((s) => !needle || (s.note ?? '').toLowerCase().includes(needle))
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+};
+
+export interface RatingTrendPoint {
+  weekStart: Date;
+  average: number | null; // null for weeks without rated sessions
+  count: number;
+}
+
+// Average rating per calendar week, oldest first, ending with the current week
+export const getRatingTrend = (sessions: SessionRecord[], weekStartsOn: number, weeks: number, now: Date = new Date()): RatingTrendPoint[] => {
+  const currentWeek = getWeekStart(now, weekStartsOn);
+  return Array.from({ length: weeks }, (_, i) => {
+    const weekStart = addDays(currentWeek, -7 * (weeks - 1 - i));
+    const startKey = getDateKey(weekStart);
+    const endKey = getDateKey(addDays(weekStart, 7));
+    const ratings = sessions
+      .filter((s) => s.rating !== undefined && getSessionDateKey(s) >= startKey && getSessionDateKey(s) < endKey)
+      .map((s) => s.rating!);
+    return {
+      weekStart,
+      average: ratings.length > 0 ? ratings.reduce((sum, r) => sum + r, 0) / ratings.length : null,
+      count: ratings.length,
+    };
+  });
+};
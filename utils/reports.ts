@@ -0,0 +1,162 @@
+import { SessionRecord, UserStats } from '../types';
+import { addDays, getDateKey, getWeekStart, parseDateKey } from './date';
+import { getSessionDateKey, isCountedSession } from './sessions';
+
+export type ReportPeriod = 'week' | 'month';
+
+// Totals come from the session log only; archived days have counts but no durations or attempts
+export interface PeriodTotals {
+  focusMinutes: number;
+  sessions: number; // completed focus sessions
+  attempts: number; // focus sessions, completed or not
+  averageMinutes: number; // per completed session
+  completionRate: number; // 0 to 1; 0 when nothing was attempted
+}
+
+export interface ReportDay {
+  dateKey: string;
+  minutes: number;
+  sessions: number;
+}
+
+export interface InsightReport {
+  period: ReportPeriod;
+  label: string;
+  start: Date; // midnight LOCAL time on the first day
+  end: Date; // midnight LOCAL time after the last day
+  totals: PeriodTotals;
+  previous: PeriodTotals; // the period just before, for comparison
+  comparedDays: number | null; // set while the period is still running: only this many days of each are compared
+  archivedSessions: number; // sessions from archived days in the period, which the totals leave out
+  minutesByHour: number[]; // 24 entries, local hour of day
+  minutesByWeekday: number[]; // 7 entries, 0 = Sunday
+  bestDay: ReportDay | null;
+  worstDay: ReportDay | null;
+}
+
+export const REPORT_PERIOD_LABELS: Record<ReportPeriod, string> = {
+  week: 'Weekly',
+  month: 'Monthly',
+};
+
+/** The period `offset` steps before the one containing `now`, as [start, end). */
+export const getPeriodRange = (period: ReportPeriod, offset: number, weekStartsOn: number, now: Date = new Date()) => {
+  if (period === 'week') {
+    const start = addDays(getWeekStart(now, weekStartsOn), -7 * offset);
+    return { start, end: addDays(start, 7) };
+  }
+  const start = new Date(now.getFullYear(), now.getMonth() - offset, 1);
+  return { start, end: new Date(start.getFullYear(), start.getMonth() + 1, 1) };
+};
+
+const formatRangeLabel = (period: ReportPeriod, start: Date, end: Date) => {
+  if (period === 'month') return start.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+  const format = (d: Date) => d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return `${format(start)} – ${format(addDays(end, -1))}, ${addDays(end, -1).getFullYear()}`;
+};
+
+const inRange = (key: string, start: Date, end: Date) => key >= getDateKey(start) && key < getDateKey(end);
+
+const getTotals = (stats: UserStats, start: Date, end: Date): PeriodTotals => {
+  const focus = stats.sessions.filter((s) => s.mode === 'focus' && inRange(getSessionDateKey(s), start, end));
+  const completed = focus.filter(isCountedSession);
+  const focusMinutes = completed.reduce((sum, s) => sum + s.actualSeconds / 60, 0);
+  return {
+    focusMinutes,
+    sessions: completed.length,
+    attempts: focus.length,
+    averageMinutes: completed.length > 0 ? focusMinutes / completed.length : 0,
+    completionRate: focus.length > 0 ? completed.length / focus.length : 0,
+  };
+};
+
+// A session's running time is spread over the hours it covered, counted from its start
+const addToHours = (hours: number[], session: SessionRecord) => {
+  let cursor = new Date(session.startedAt);
+  let remaining = session.actualSeconds / 60;
+  while (remaining > 0) {
+    const minutesLeftInHour = 60 - cursor.getMinutes() - cursor.getSeconds() / 60;
+    const chunk = Math.min(remaining, minutesLeftInHour);
+    hours[cursor.getHours()] += chunk;
+    remaining -= chunk;
+    cursor = new Date(cursor.getTime() + chunk * 60000);
+  }
+};
+
+/**
+ * Builds the report for one calendar week or month. Days still ahead in the
+ * current period are left out of the best and worst days, and the previous
+ * period is cut to the same number of days so the change is like for like.
+ */
+export const buildInsightReport = (
+  stats: UserStats,
+  period: ReportPeriod,
+  offset: number,
+  weekStartsOn: number,
+  now: Date = new Date()
+): InsightReport => {
+  const { start, end } = getPeriodRange(period, offset, weekStartsOn, now);
+  const previousRange = getPeriodRange(period, offset + 1, weekStartsOn, now);
+  const counted = stats.sessions.filter((s) => isCountedSession(s) && inRange(getSessionDateKey(s), start, end));
+
+  const minutesByHour = Array<number>(24).fill(0);
+  const minutesByWeekday = Array<number>(7).fill(0);
+  const minutesByDay: { [date: string]: number } = {};
+  const sessionsByDay: { [date: string]: number } = {};
+  counted.forEach((s) => {
+    addToHours(minutesByHour, s);
+    minutesByWeekday[new Date(s.startedAt).getDay()] += s.actualSeconds / 60;
+    const key = getSessionDateKey(s);
+    minutesByDay[key] = (minutesByDay[key] || 0) + s.actualSeconds / 60;
+    sessionsByDay[key] = (sessionsByDay[key] || 0) + 1;
+  });
+
+  const todayKey = getDateKey(now);
+  const days: ReportDay[] = [];
+  for (let d = start; d < end && getDateKey(d) <= todayKey; d = addDays(d, 1)) {
+    const dateKey = getDateKey(d);
+    days.push({ dateKey, minutes: minutesByDay[dateKey] || 0, sessions: sessionsByDay[dateKey] || 0 });
+  }
+  const periodDays = Math.round((end.getTime() - start.getTime()) / 86400000);
+  const comparedDays = days.length < periodDays ? days.length : null;
+  const previousEnd = comparedDays === null
+    ? previousRange.end
+    : new Date(Math.min(addDays(previousRange.start, comparedDays).getTime(), previousRange.end.getTime()));
+  const archivedSessions = Object.keys(stats.history)
+    .filter((key) => inRange(key, start, end))
+    .reduce((sum, key) => sum + (stats.history[key] || 0), 0);
+  const byMinutes = [...days].sort((a, b) => b.minutes - a.minutes || b.sessions - a.sessions);
+  const hasFocus = byMinutes.length > 0 && byMinutes[0].minutes > 0;
+
+  return {
+    period,
+    label: formatRangeLabel(period, start, end),
+    start,
+    end,
+    totals: getTotals(stats, start, end),
+    previous: getTotals(stats, previousRange.start, previousEnd),
+    comparedDays,
+    archivedSessions,
+    minutesByHour,
+    minutesByWeekday,
+    bestDay: hasFocus ? byMinutes[0] : null,
+    worstDay: hasFocus && byMinutes.length > 1 ? byMinutes[byMinutes.length - 1] : null,
+  };
+};
+
+// Relative change from the previous period; null when there is nothing to compare against
+export const getChange = (current: number, previous: number): number | null =>
+  previous > 0 ? (current - previous) / previous : null;
+
+export const formatChange = (change: number | null) =>
+  change === null ? '—' : `${change >= 0 ? '+' : '−'}${Math.round(Math.abs(change) * 100)}%`;
+
+export const formatComparison = (report: InsightReport) =>
+  report.comparedDays === null
+    ? `Compared with the previous ${report.period}`
+    : `Compared with the first ${report.comparedDays} ${report.comparedDays === 1 ? 'day' : 'days'} of the previous ${report.period}`;
+
+export const formatReportDay = (day: ReportDay) =>
+  parseDateKey(day.dateKey).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+export const formatHour = (hour: number) => `${hour % 12 === 0 ? 12 : hour % 12}${hour < 12 ? 'a' : 'p'}`;
@@ -0,0 +1,461 @@
+import { AlertTransition, AmbientLayer, AmbientMix, AmbientSoundType, AmbientTrack, AppSettings, Goal, Interruption, SessionRecord, Task, TaskList, TimerProfile, UserStats } from '../types';
+import { getDateKey } from './date';
+import { BUILT_IN_PROFILES } from './profiles';
+import { createId } from './sessions';
+import { BUILT_IN_MIXES, createLayer, getLayerKey } from './ambient';
+import { DEFAULT_BINAURAL_BEAT_HZ } from './soundscapes';
+import { ALERT_SOUNDS } from './chimes';
+import { DEFAULT_SHORTCUTS, SHORTCUT_ACTIONS } from './shortcuts';
+import { createGoal, DEFAULT_DAILY_GOAL } from './goals';
+
+/**
+ * Persisted data is wrapped as `{ schemaVersion, data }`. Blobs written before
+ * versioning existed have no wrapper and are treated as version 0.
+ *
+ * `migrations[n]` upgrades data from version n to n + 1, so the current version
+ * is always `migrations.length`. Never edit a released step; append a new one.
+ */
+export type Migration = (data: unknown) => unknown;
+
+export interface ValidationResult<T> {
+  value: T;
+  issues: string[]; // fields that were repaired or dropped
+}
+
+export interface Schema<T> {
+  version: number;
+  migrations: Migration[];
+  // Returns null when the data can't be salvaged at all
+  validate: (data: unknown) => ValidationResult<T> | null;
+}
+
+const defineSchema = <T>(migrations: Migration[], validate: Schema<T>['validate']): Schema<T> => ({
+  version: migrations.length,
+  migrations,
+  validate,
+});
+
+// Runs the steps that take data saved at `fromVersion` up to the schema's current version
+export const migrate = <T>(schema: Schema<T>, data: unknown, fromVersion: number): unknown =>
+  schema.migrations.slice(fromVersion).reduce((value, step) => step(value), data);
+
+// --- Field checks ---
+
+type Check<T> = (value: unknown) => T | undefined;
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const boolean: Check<boolean> = (v) => (typeof v === 'boolean' ? v : undefined);
+
+const number = (min: number, max: number, integer = false): Check<number> => (v) => {
+  if (typeof v !== 'number' || !isFinite(v)) return undefined;
+  return Math.min(max, Math.max(min, integer ? Math.round(v) : v));
+};
+
+const isoDate: Check<string> = (v) => (typeof v === 'string' && !isNaN(Date.parse(v)) ? v : undefined);
+
+const oneOf = <T extends string>(options: readonly T[]): Check<T> => (v) =>
+  options.includes(v as T) ? (v as T) : undefined;
+
+/**
+ * Reads fields off an untrusted object, falling back to defaults. Missing fields
+ * (older data) are filled silently; present-but-invalid ones are reported.
+ */
+const createReader = (raw: Record<string, unknown>) => {
+  const issues: string[] = [];
+  const read = <T>(key: string, check: Check<T>, fallback: T): T => {
+    if (raw[key] === undefined) return fallback;
+    const value = check(raw[key]);
+    if (value === undefined) {
+      issues.push(key);
+      return fallback;
+    }
+    if (value !== raw[key]) issues.push(key);
+    return value;
+  };
+  return { read, issues };
+};
+
+const isInterruption = (value: unknown): value is Interruption =>
+  isObject(value) &&
+  isoDate(value.at) !== undefined &&
+  oneOf(['distraction', 'pause'] as const)(value.kind) !== undefined &&
+  (value.source === null || oneOf(['internal', 'external'] as const)(value.source) !== undefined) &&
+  (value.reason === undefined || typeof value.reason === 'string');
+
+export const isSessionRecord = (value: unknown): value is SessionRecord =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  oneOf(['focus', 'break', 'longBreak'] as const)(value.mode) !== undefined &&
+  isoDate(value.startedAt) !== undefined &&
+  isoDate(value.endedAt) !== undefined &&
+  typeof value.plannedSeconds === 'number' &&
+  typeof value.actualSeconds === 'number' &&
+  typeof value.completed === 'boolean' &&
+  (value.interruptions === undefined || (Array.isArray(value.interruptions) && value.interruptions.every(isInterruption))) &&
+  (value.note === undefined || typeof value.note === 'string') &&
+  (value.rating === undefined || (typeof value.rating === 'number' && [1, 2, 3, 4, 5].includes(value.rating)));
+
+export const isTask = (value: unknown): value is Task =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.title === 'string' &&
+  typeof value.estimatedPomodoros === 'number';
+
+// --- Stats ---
+
+// Counters are placeholders here; deriveStats fills them in from history and sessions
+export const createDefaultStats = (): UserStats => ({
+  todaySessions: 0,
+  weekSessions: 0,
+  goals: [createGoal(DEFAULT_DAILY_GOAL)],
+  lastUpdate: new Date().toISOString(),
+  weekStartDate: new Date().toISOString(),
+  totalMinutesToday: 0,
+  totalMinutesWeek: 0,
+  longestStreak: 0,
+  currentStreak: 0,
+  history: {},
+  sessions: [],
+});
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const STATS_MIGRATIONS: Migration[] = [
+  // v0 -> v1: data saved before the session log only has hand-maintained counters.
+  // Archive the last active day's counter so it isn't lost, then start an empty log.
+  (data) => {
+    if (!isObject(data) || Array.isArray(data.sessions)) return data;
+    const history = isObject(data.history) ? { ...data.history } : {};
+    const lastUpdate = isoDate(data.lastUpdate);
+    if (typeof data.todaySessions === 'number' && data.todaySessions > 0 && lastUpdate) {
+      history[getDateKey(new Date(lastUpdate))] = data.todaySessions;
+    }
+    return { ...data, history, sessions: [] };
+  },
+  // v1 -> v2: the single dailyGoal becomes the first entry of the goal history
+  (data) => {
+    if (!isObject(data) || Array.isArray(data.goals)) return data;
+    const { dailyGoal, ...rest } = data;
+    const daily = typeof dailyGoal === 'number' && dailyGoal >= 1 ? Math.round(dailyGoal) : DEFAULT_DAILY_GOAL;
+    // Dated before any session, so the old goal keeps judging every past day
+    return { ...rest, goals: [{ effectiveFrom: '0000-01-01', dailySessions: Array(7).fill(daily), weeklySessions: 0, weeklyMinutes: 0 }] };
+  },
+];
+
+const validateGoal = (value: unknown): Goal | undefined => {
+  if (!isObject(value) || typeof value.effectiveFrom !== 'string' || !DATE_KEY_PATTERN.test(value.effectiveFrom)) return undefined;
+  if (!Array.isArray(value.dailySessions) || value.dailySessions.length !== 7) return undefined;
+  const dailySessions = value.dailySessions.map(number(0, 99, true));
+  const weeklySessions = number(0, 999, true)(value.weeklySessions);
+  const weeklyMinutes = number(0, 7 * 24 * 60, true)(value.weeklyMinutes);
+  if (dailySessions.some((n) => n === undefined) || weeklySessions === undefined || weeklyMinutes === undefined) return undefined;
+  return { effectiveFrom: value.effectiveFrom, dailySessions: dailySessions as number[], weeklySessions, weeklyMinutes };
+};
+
+const validateStats = (data: unknown): ValidationResult<UserStats> | null => {
+  if (!isObject(data)) return null;
+  const defaults = createDefaultStats();
+  const { read, issues } = createReader(data);
+
+  const history: { [date: string]: number } = {};
+  if (data.history !== undefined && !isObject(data.history)) issues.push('history');
+  if (isObject(data.history)) {
+    Object.entries(data.history).forEach(([key, count]) => {
+      const valid = number(0, Number.MAX_SAFE_INTEGER, true)(count);
+      if (DATE_KEY_PATTERN.test(key) && valid !== undefined) history[key] = valid;
+      else issues.push(`history.${key}`);
+    });
+  }
+
+  let sessions: SessionRecord[] = [];
+  if (Array.isArray(data.sessions)) {
+    sessions = data.sessions.filter(isSessionRecord);
+    if (sessions.length !== data.sessions.length) issues.push('sessions');
+  } else if (data.sessions !== undefined) {
+    issues.push('sessions');
+  }
+
+  let goals = defaults.goals;
+  if (Array.isArray(data.goals)) {
+    const valid = data.goals.map(validateGoal).filter((g): g is Goal => g !== undefined);
+    if (valid.length !== data.goals.length) issues.push('goals');
+    if (valid.length > 0) goals = valid.sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+  } else if (data.goals !== undefined) {
+    issues.push('goals');
+  }
+
+  return {
+    value: {
+      ...defaults,
+      goals,
+      lastUpdate: read('lastUpdate', isoDate, defaults.lastUpdate),
+      weekStartDate: read('weekStartDate', isoDate, defaults.weekStartDate),
+      history,
+      sessions,
+    },
+    issues,
+  };
+};
+
+export const STATS_SCHEMA = defineSchema(STATS_MIGRATIONS, validateStats);
+
+// --- Settings ---
+
+export const AMBIENT_SOUND_TYPES: readonly AmbientSoundType[] = ['rain', 'cafe', 'white', 'brown', 'ocean', 'fire', 'thunder', 'binaural'];
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  darkMode: false,
+  ambientSound: false,
+  ambientLayers: [createLayer('rain')],
+  ambientMixes: BUILT_IN_MIXES,
+  ambientVolume: 0.5,
+  ambientTracks: [],
+  ambientDuringBreaks: 'play',
+  ambientStopsOnPause: false,
+  focusDuration: 25,
+  breakDuration: 5,
+  longBreakDuration: 15,
+  longBreakInterval: 4,
+  autoStartBreaks: false,
+  autoStartFocus: false,
+  weekStartsOn: 1,
+  streakRequiresGoal: false,
+  streakFreezesPerMonth: 0,
+  profiles: BUILT_IN_PROFILES,
+  activeProfileId: BUILT_IN_PROFILES[0].id,
+  shortcuts: DEFAULT_SHORTCUTS,
+  systemNotifications: false,
+  alertSounds: { focusEnd: 'sweep', breakEnd: 'sweep' },
+  alertVolume: 0.4,
+  alertRepeat: false,
+  tickingDuringFocus: false,
+  askForReflection: true,
+  focusOvertime: false,
+  flowtime: false,
+  flowtimeBreakRatio: 5,
+  strictMode: false,
+  strictMaxPauses: 2,
+};
+
+const SETTINGS_MIGRATIONS: Migration[] = [
+  // v0 -> v1: unversioned settings only need wrapping; validation fills new fields
+  (data) => data,
+  // v1 -> v2: timer profiles. Keep the user's own durations as a profile of their
+  // own unless they match the classic Pomodoro preset. The presets and field rules
+  // are copied as they were at v2, so later changes to profiles can't alter this step.
+  (data) => {
+    if (!isObject(data) || Array.isArray(data.profiles)) return data;
+    const int = (value: unknown, min: number, max: number, fallback: number) =>
+      typeof value === 'number' && isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : fallback;
+    const flag = (value: unknown, fallback: boolean) => (typeof value === 'boolean' ? value : fallback);
+    const current = {
+      focusDuration: int(data.focusDuration, 1, 90, 25),
+      breakDuration: int(data.breakDuration, 1, 30, 5),
+      longBreakDuration: int(data.longBreakDuration, 5, 60, 15),
+      longBreakInterval: int(data.longBreakInterval, 2, 8, 4),
+      autoStartBreaks: flag(data.autoStartBreaks, false),
+      autoStartFocus: flag(data.autoStartFocus, false),
+      ambientSound: flag(data.ambientSound, false),
+      ambientSoundType: oneOf(['rain', 'cafe', 'white'] as const)(data.ambientSoundType) ?? 'rain',
+    };
+    const presets = [
+      { id: 'pomodoro', name: 'Pomodoro 25/5', focusDuration: 25, breakDuration: 5, longBreakDuration: 15, longBreakInterval: 4, autoStartBreaks: false, autoStartFocus: false, ambientSound: false, ambientSoundType: 'rain' },
+      { id: 'flow-52-17', name: '52/17', focusDuration: 52, breakDuration: 17, longBreakDuration: 30, longBreakInterval: 3, autoStartBreaks: true, autoStartFocus: false, ambientSound: false, ambientSoundType: 'white' },
+      { id: 'deep-work-90-20', name: 'Deep Work 90/20', focusDuration: 90, breakDuration: 20, longBreakDuration: 30, longBreakInterval: 2, autoStartBreaks: true, autoStartFocus: false, ambientSound: true, ambientSoundType: 'rain' },
+    ];
+    const fields = Object.keys(current) as (keyof typeof current)[];
+    const preset = presets.find((p) => fields.every((key) => p[key] === current[key]));
+    if (preset) return { ...data, profiles: presets, activeProfileId: preset.id };
+    const own = { id: createId(), name: 'My Timer', ...current };
+    return { ...data, profiles: [...presets, own], activeProfileId: own.id };
+  },
+  // v2 -> v3: a single ambient sound becomes a one-layer mix, in settings and in each
+  // profile. Profiles without a sound of their own were made from these settings
+  // by the previous step, so they take the settings' sound.
+  (data) => {
+    if (!isObject(data) || Array.isArray(data.ambientLayers)) return data;
+    const toLayers = (type: unknown) => [createLayer(oneOf(AMBIENT_SOUND_TYPES)(type) ?? 'rain')];
+    const { ambientSoundType, ...rest } = data;
+    const profiles = Array.isArray(data.profiles)
+      ? data.profiles.map((p: unknown) => {
+          if (!isObject(p)) return p;
+          const { ambientSoundType: type = ambientSoundType, ...profile } = p;
+          return { ...profile, ambientLayers: toLayers(type) };
+        })
+      : data.profiles;
+    return { ...rest, ambientLayers: toLayers(ambientSoundType), profiles };
+  },
+];
+
+// Drops malformed layers and repeats of a sound type; null when the field isn't a list at all
+const validateLayers = (data: unknown): AmbientLayer[] | null => {
+  if (!Array.isArray(data)) return null;
+  const layers: AmbientLayer[] = [];
+  data.forEach((raw) => {
+    if (!isObject(raw)) return;
+    const type = oneOf([...AMBIENT_SOUND_TYPES, 'track'] as const)(raw.type);
+    if (!type || (type === 'track' && typeof raw.trackId !== 'string')) return;
+    const { read } = createReader(raw);
+    const layer: AmbientLayer = { type, volume: read('volume', number(0, 1), 1), muted: read('muted', boolean, false) };
+    if (type === 'binaural') layer.beatHz = read('beatHz', number(1, 40), DEFAULT_BINAURAL_BEAT_HZ);
+    if (type === 'track' && typeof raw.trackId === 'string') layer.trackId = raw.trackId;
+    if (!layers.some((l) => getLayerKey(l) === getLayerKey(layer))) layers.push(layer);
+  });
+  return layers;
+};
+
+const isAmbientTrack = (value: unknown): value is AmbientTrack =>
+  isObject(value) && typeof value.id === 'string' && typeof value.name === 'string';
+
+const validateMix = (data: unknown): AmbientMix | null => {
+  if (!isObject(data) || typeof data.id !== 'string' || typeof data.name !== 'string') return null;
+  const layers = validateLayers(data.layers);
+  return layers && layers.length > 0 ? { id: data.id, name: data.name, layers } : null;
+};
+
+const validateProfile = (data: unknown): TimerProfile | null => {
+  if (!isObject(data) || typeof data.id !== 'string' || typeof data.name !== 'string') return null;
+  const d = BUILT_IN_PROFILES[0];
+  const { read } = createReader(data);
+  return {
+    id: data.id,
+    name: data.name,
+    focusDuration: read('focusDuration', number(1, 90, true), d.focusDuration),
+    breakDuration: read('breakDuration', number(1, 30, true), d.breakDuration),
+    longBreakDuration: read('longBreakDuration', number(5, 60, true), d.longBreakDuration),
+    longBreakInterval: read('longBreakInterval', number(2, 8, true), d.longBreakInterval),
+    autoStartBreaks: read('autoStartBreaks', boolean, d.autoStartBreaks),
+    autoStartFocus: read('autoStartFocus', boolean, d.autoStartFocus),
+    ambientSound: read('ambientSound', boolean, d.ambientSound),
+    ambientLayers: validateLayers(data.ambientLayers) ?? d.ambientLayers,
+  };
+};
+
+const validateSettings = (data: unknown): ValidationResult<AppSettings> | null => {
+  if (!isObject(data)) return null;
+  const d = DEFAULT_SETTINGS;
+  const { read, issues } = createReader(data);
+
+  let profiles = d.profiles;
+  if (Array.isArray(data.profiles)) {
+    const valid = data.profiles.map(validateProfile).filter((p): p is TimerProfile => p !== null);
+    if (valid.length !== data.profiles.length) issues.push('profiles');
+    if (valid.length > 0) profiles = valid;
+  } else if (data.profiles !== undefined) {
+    issues.push('profiles');
+  }
+  const activeProfileId =
+    typeof data.activeProfileId === 'string' && profiles.some((p) => p.id === data.activeProfileId) ? data.activeProfileId : null;
+  if (data.activeProfileId != null && activeProfileId === null) issues.push('activeProfileId');
+
+  const ambientLayers = validateLayers(data.ambientLayers);
+  if (data.ambientLayers !== undefined && (!ambientLayers || !Array.isArray(data.ambientLayers) || ambientLayers.length !== data.ambientLayers.length)) {
+    issues.push('ambientLayers');
+  }
+
+  let ambientMixes = d.ambientMixes;
+  if (Array.isArray(data.ambientMixes)) {
+    ambientMixes = data.ambientMixes.map(validateMix).filter((m): m is AmbientMix => m !== null);
+    if (ambientMixes.length !== data.ambientMixes.length) issues.push('ambientMixes');
+  } else if (data.ambientMixes !== undefined) {
+    issues.push('ambientMixes');
+  }
+
+  let ambientTracks = d.ambientTracks;
+  if (Array.isArray(data.ambientTracks)) {
+    ambientTracks = data.ambientTracks.filter(isAmbientTrack).map((t) => ({ id: t.id, name: t.name }));
+    if (ambientTracks.length !== data.ambientTracks.length) issues.push('ambientTracks');
+  } else if (data.ambientTracks !== undefined) {
+    issues.push('ambientTracks');
+  }
+
+  const alertSounds = { ...d.alertSounds };
+  if (isObject(data.alertSounds)) {
+    (Object.keys(alertSounds) as AlertTransition[]).forEach((transition) => {
+      const sound = oneOf(ALERT_SOUNDS)(data.alertSounds[transition]);
+      if (sound) alertSounds[transition] = sound;
+      else if (data.alertSounds[transition] !== undefined) issues.push(`alertSounds.${transition}`);
+    });
+  } else if (data.alertSounds !== undefined) {
+    issues.push('alertSounds');
+  }
+
+  // Actions added after the mapping was saved get their default key
+  const shortcuts = { ...d.shortcuts };
+  if (isObject(data.shortcuts)) {
+    SHORTCUT_ACTIONS.forEach((action) => {
+      const key = data.shortcuts[action];
+      if (typeof key === 'string') shortcuts[action] = key;
+      else if (key !== undefined) issues.push(`shortcuts.${action}`);
+    });
+  } else if (data.shortcuts !== undefined) {
+    issues.push('shortcuts');
+  }
+
+  return {
+    value: {
+      darkMode: read('darkMode', boolean, d.darkMode),
+      ambientSound: read('ambientSound', boolean, d.ambientSound),
+      ambientLayers: ambientLayers ?? d.ambientLayers,
+      ambientMixes,
+      ambientTracks,
+      ambientDuringBreaks: read('ambientDuringBreaks', oneOf(['play', 'duck', 'mute'] as const), d.ambientDuringBreaks),
+      ambientStopsOnPause: read('ambientStopsOnPause', boolean, d.ambientStopsOnPause),
+      ambientVolume: read('ambientVolume', number(0, 1), d.ambientVolume),
+      focusDuration: read('focusDuration', number(1, 90, true), d.focusDuration),
+      breakDuration: read('breakDuration', number(1, 30, true), d.breakDuration),
+      longBreakDuration: read('longBreakDuration', number(5, 60, true), d.longBreakDuration),
+      longBreakInterval: read('longBreakInterval', number(2, 8, true), d.longBreakInterval),
+      autoStartBreaks: read('autoStartBreaks', boolean, d.autoStartBreaks),
+      autoStartFocus: read('autoStartFocus', boolean, d.autoStartFocus),
+      weekStartsOn: read('weekStartsOn', number(0, 1, true), d.weekStartsOn) as 0 | 1,
+      streakRequiresGoal: read('streakRequiresGoal', boolean, d.streakRequiresGoal),
+      streakFreezesPerMonth: read('streakFreezesPerMonth', number(0, 4, true), d.streakFreezesPerMonth),
+      profiles,
+      activeProfileId: data.activeProfileId === undefined ? d.activeProfileId : activeProfileId,
+      shortcuts,
+      systemNotifications: read('systemNotifications', boolean, d.systemNotifications),
+      alertSounds,
+      alertVolume: read('alertVolume', number(0, 1), d.alertVolume),
+      alertRepeat: read('alertRepeat', boolean, d.alertRepeat),
+      tickingDuringFocus: read('tickingDuringFocus', boolean, d.tickingDuringFocus),
+      askForReflection: read('askForReflection', boolean, d.askForReflection),
+      focusOvertime: read('focusOvertime', boolean, d.focusOvertime),
+      flowtime: read('flowtime', boolean, d.flowtime),
+      flowtimeBreakRatio: read('flowtimeBreakRatio', number(2, 10, true), d.flowtimeBreakRatio),
+      strictMode: read('strictMode', boolean, d.strictMode),
+      strictMaxPauses: read('strictMaxPauses', number(0, 5, true), d.strictMaxPauses),
+    },
+    issues,
+  };
+};
+
+export const SETTINGS_SCHEMA = defineSchema(SETTINGS_MIGRATIONS, validateSettings);
+
+// --- Tasks ---
+
+const TASKS_MIGRATIONS: Migration[] = [
+  // v0 -> v1: unversioned task lists only need wrapping
+  (data) => data,
+];
+
+const validateTasks = (data: unknown): ValidationResult<TaskList> | null => {
+  if (!isObject(data)) return null;
+  const issues: string[] = [];
+  const tasks = Array.isArray(data.tasks) ? data.tasks.filter(isTask) : [];
+  if (!Array.isArray(data.tasks) || tasks.length !== data.tasks.length) issues.push('tasks');
+  const activeTaskId =
+    typeof data.activeTaskId === 'string' && tasks.some((t) => t.id === data.activeTaskId) ? data.activeTaskId : null;
+  if (data.activeTaskId != null && activeTaskId === null) issues.push('activeTaskId');
+  return {
+    value: {
+      tasks: tasks.map((t) => ({ ...t, project: typeof t.project === 'string' ? t.project : null, done: !!t.done })),
+      activeTaskId,
+    },
+    issues,
+  };
+};
+
+export const TASKS_SCHEMA = defineSchema(TASKS_MIGRATIONS, validateTasks);
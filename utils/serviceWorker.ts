@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react';
+
+// Long-lived tabs look for a new version this often
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+// A newer worker that has installed and is waiting for the page to let it take over
+let waitingWorker: ServiceWorker | null = null;
+const listeners = new Set<() => void>();
+
+const setWaitingWorker = (worker: ServiceWorker) => {
+  waitingWorker = worker;
+  listeners.forEach((listener) => listener());
+};
+
+// Registration is best-effort: without a service worker the app still works,
+// it just isn't available offline and notifications lose their action buttons
+export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!('serviceWorker' in navigator)) return null;
+  try {
+    const registration = await navigator.serviceWorker.register('./sw.js');
+    // Without a controller this is the first install, which is not an update
+    if (registration.waiting && navigator.serviceWorker.controller) setWaitingWorker(registration.waiting);
+    registration.addEventListener('updatefound', () => {
+      const installing = registration.installing;
+      installing?.addEventListener('statechange', () => {
+        if (installing.state === 'installed' && navigator.serviceWorker.controller) setWaitingWorker(installing);
+      });
+    });
+    setInterval(() => registration.update().catch(() => {}), UPDATE_CHECK_INTERVAL);
+    return registration;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Activates the waiting worker and reloads this tab once it has taken over.
+ * Only call this when no session is underway.
+ */
+export const applyUpdate = () => {
+  if (!waitingWorker) return;
+  // Another tab may have applied the update already; this one just needs the reload
+  if (waitingWorker.state === 'activated') {
+    window.location.reload();
+    return;
+  }
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  waitingWorker.postMessage({ type: 'skip-waiting' });
+};
+
+export const useUpdateAvailable = (): boolean => {
+  const [available, setAvailable] = useState(waitingWorker !== null);
+
+  useEffect(() => {
+    const listener = () => setAvailable(waitingWorker !== null);
+    listeners.add(listener);
+    listener();
+    return () => { listeners.delete(listener); };
+  }, []);
+
+  return available;
+};
@@ -0,0 +1,185 @@
+import { AppSettings, Goal, Interruption, SessionRecord, TimerMode, UserStats } from '../types';
+import { getDateKey, addDays, parseDateKey, getWeekStart } from './date';
+import { getDailyGoal } from './goals';
+
+// The settings that change how stats are derived
+export type StatsOptions = Pick<AppSettings, 'weekStartsOn' | 'streakRequiresGoal' | 'streakFreezesPerMonth'>;
+
+export const createId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const createSessionRecord = (
+  mode: TimerMode,
+  startedAt: Date,
+  endedAt: Date,
+  plannedSeconds: number,
+  actualSeconds: number,
+  completed: boolean,
+  details: { taskId?: string | null; profileId?: string | null; interruptions?: Interruption[] } = {}
+): SessionRecord => ({
+  id: createId(),
+  mode,
+  startedAt: startedAt.toISOString(),
+  endedAt: endedAt.toISOString(),
+  plannedSeconds,
+  actualSeconds: Math.max(0, Math.round(actualSeconds)),
+  completed,
+  ...(details.taskId ? { taskId: details.taskId } : {}),
+  ...(details.profileId ? { profileId: details.profileId } : {}),
+  ...(details.interruptions ? { interruptions: details.interruptions } : {}),
+});
+
+// A session counts towards goals and streaks only when it was a finished focus block
+export const isCountedSession = (session: SessionRecord) =>
+  session.mode === 'focus' && session.completed;
+
+export interface FocusOutcomes {
+  completed: number;
+  abandoned: number;
+  abandonRate: number; // 0 to 1
+}
+
+export const getFocusOutcomes = (sessions: SessionRecord[]): FocusOutcomes => {
+  const focus = sessions.filter((s) => s.mode === 'focus');
+  const completed = focus.filter((s) => s.completed).length;
+  const abandoned = focus.length - completed;
+  return { completed, abandoned, abandonRate: focus.length > 0 ? abandoned / focus.length : 0 };
+};
+
+export const getSessionDateKey = (session: SessionRecord) => getDateKey(new Date(session.startedAt));
+
+export const getWeekSessions = (stats: UserStats, now: Date = new Date()): SessionRecord[] => {
+  const weekStartKey = getDateKey(new Date(stats.weekStartDate));
+  const todayKey = getDateKey(now);
+  return stats.sessions.filter((s) => {
+    const key = getSessionDateKey(s);
+    return key >= weekStartKey && key <= todayKey;
+  });
+};
+
+/**
+ * Daily focus session counts: the legacy archive (days recorded before the
+ * session log existed) plus every counted session from the log.
+ */
+export const getDailyCounts = (stats: UserStats): { [date: string]: number } => {
+  const counts: { [date: string]: number } = { ...stats.history };
+  stats.sessions.filter(isCountedSession).forEach((s) => {
+    const key = getSessionDateKey(s);
+    counts[key] = (counts[key] || 0) + 1;
+  });
+  return counts;
+};
+
+export const getDailyMinutes = (stats: UserStats): { [date: string]: number } => {
+  const minutes: { [date: string]: number } = {};
+  stats.sessions.filter(isCountedSession).forEach((s) => {
+    const key = getSessionDateKey(s);
+    minutes[key] = (minutes[key] || 0) + s.actualSeconds / 60;
+  });
+  return minutes;
+};
+
+export const getSessionsOn = (stats: UserStats, dateKey: string): SessionRecord[] =>
+  stats.sessions
+    .filter((s) => getSessionDateKey(s) === dateKey)
+    .sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+
+/**
+ * Walks every day from the first recorded one up to today, in order, so the
+ * result only depends on the data. A day qualifies when it has any session, or
+ * meets that day's goal when `streakRequiresGoal` is set. Days without a goal
+ * are rest days: they extend the streak only if worked, and never break it.
+ * Missed days can be bridged by up to `streakFreezesPerMonth` freezes per
+ * calendar month; a freeze keeps the streak alive but doesn't add to it.
+ */
+const computeStreaks = (counts: { [date: string]: number }, goals: Goal[], options: StatsOptions, now: Date) => {
+  const days = Object.keys(counts).filter((k) => counts[k] > 0).sort();
+  const todayKey = getDateKey(now);
+  const qualifies = (key: string) => {
+    const goal = getDailyGoal(goals, key);
+    return options.streakRequiresGoal && goal > 0 ? (counts[key] || 0) >= goal : (counts[key] || 0) > 0;
+  };
+
+  let longest = 0;
+  let run = 0;
+  const freezesUsed: { [month: string]: number } = {};
+  if (days.length === 0) return { current: 0, longest: 0 };
+
+  for (let d = parseDateKey(days[0]); getDateKey(d) <= todayKey; d = addDays(d, 1)) {
+    const key = getDateKey(d);
+    if (qualifies(key)) {
+      run += 1;
+      longest = Math.max(longest, run);
+      continue;
+    }
+    // Today is still in progress, so an unfinished today doesn't break the streak yet
+    if (key === todayKey) break;
+    if (getDailyGoal(goals, key) === 0) continue;
+    const month = key.slice(0, 7);
+    if (run > 0 && (freezesUsed[month] || 0) < options.streakFreezesPerMonth) {
+      freezesUsed[month] = (freezesUsed[month] || 0) + 1;
+    } else {
+      run = 0;
+    }
+  }
+
+  return { current: run, longest };
+};
+
+/**
+ * Recomputes every derived counter on `UserStats` from the session log.
+ * Call this after any change to `sessions`, or to the options, instead of
+ * mutating counters by hand.
+ */
+export const deriveStats = (stats: UserStats, options: StatsOptions, now: Date = new Date()): UserStats => {
+  const todayKey = getDateKey(now);
+  const weekStart = getWeekStart(now, options.weekStartsOn);
+  const weekStartKey = getDateKey(weekStart);
+  const counts = getDailyCounts(stats);
+  const withWeek = { ...stats, weekStartDate: weekStart.toISOString() };
+
+  const todaysSessions = stats.sessions.filter((s) => isCountedSession(s) && getSessionDateKey(s) === todayKey);
+  const weeksSessions = getWeekSessions(withWeek, now).filter(isCountedSession);
+  const legacyWeekSessions = Object.keys(stats.history)
+    .filter((key) => key >= weekStartKey && key <= todayKey)
+    .reduce((sum, key) => sum + (stats.history[key] || 0), 0);
+
+  const toMinutes = (sessions: SessionRecord[]) =>
+    Math.round(sessions.reduce((sum, s) => sum + s.actualSeconds, 0) / 60);
+
+  const streaks = computeStreaks(counts, stats.goals, options, now);
+
+  return {
+    ...withWeek,
+    todaySessions: counts[todayKey] || 0,
+    weekSessions: weeksSessions.length + legacyWeekSessions,
+    totalMinutesToday: toMinutes(todaysSessions),
+    totalMinutesWeek: toMinutes(weeksSessions),
+    currentStreak: streaks.current,
+    longestStreak: streaks.longest,
+  };
+};
+
+const DERIVED_FIELDS = ['weekStartDate', 'todaySessions', 'weekSessions', 'totalMinutesToday', 'totalMinutesWeek', 'currentStreak', 'longestStreak'] as const;
+
+// deriveStats for when nothing in the log changed: hands back `stats` itself if no counter moved,
+// so callers can tell there is nothing to save or broadcast
+export const refreshStats = (stats: UserStats, options: StatsOptions, now: Date = new Date()): UserStats => {
+  const next = deriveStats(stats, options, now);
+  return DERIVED_FIELDS.every((field) => next[field] === stats[field]) ? stats : next;
+};
+
+export const appendSession = (stats: UserStats, session: SessionRecord, options: StatsOptions): UserStats =>
+  deriveStats({
+    ...stats,
+    sessions: [...stats.sessions, session],
+    lastUpdate: new Date().toISOString(),
+  }, options);
+
+// Swaps in an edited session log, keeping it in start order
+export const replaceSessions = (stats: UserStats, sessions: SessionRecord[], options: StatsOptions): UserStats =>
+  deriveStats({
+    ...stats,
+    sessions: [...sessions].sort((a, b) => a.startedAt.localeCompare(b.startedAt)),
+    lastUpdate: new Date().toISOString(),
+  }, options);
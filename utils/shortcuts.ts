@@ -0,0 +1,73 @@
+import { ShortcutAction } from '../types';
+
+/**
+ * Shortcuts are stored as strings such as "Space", "Shift+F" or "Mod+K", where
+ * "Mod" is Cmd on macOS and Ctrl elsewhere, so one mapping works on every platform.
+ */
+export const DEFAULT_SHORTCUTS: Record<ShortcutAction, string> = {
+  toggleTimer: 'Space',
+  resetTimer: 'R',
+  focusPhase: '1',
+  breakPhase: '2',
+  longBreakPhase: '3',
+  toggleFocusMode: 'F',
+  toggleFullscreen: 'Shift+F',
+  toggleAmbientSound: 'A',
+  toggleDarkMode: 'D',
+  openSettings: ',',
+  openCommandPalette: 'Mod+K',
+  logDistraction: 'I',
+  undoHistoryChange: 'Mod+Z',
+  finishSession: 'E',
+};
+
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+  toggleTimer: 'Start / pause timer',
+  resetTimer: 'Reset timer',
+  focusPhase: 'Switch to focus',
+  breakPhase: 'Switch to break',
+  longBreakPhase: 'Switch to long break',
+  toggleFocusMode: 'Toggle focus mode',
+  toggleFullscreen: 'Toggle fullscreen',
+  toggleAmbientSound: 'Toggle ambient sound',
+  toggleDarkMode: 'Toggle dark mode',
+  openSettings: 'Open settings',
+  openCommandPalette: 'Open command palette',
+  logDistraction: 'Log a distraction',
+  undoHistoryChange: 'Undo last history edit',
+  finishSession: 'Finish open-ended focus',
+};
+
+export const SHORTCUT_ACTIONS = Object.keys(DEFAULT_SHORTCUTS) as ShortcutAction[];
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift'];
+
+// Returns null for lone modifier presses, which can't be a shortcut on their own
+export const eventToShortcut = (e: Pick<KeyboardEvent, 'key' | 'code' | 'metaKey' | 'ctrlKey' | 'altKey' | 'shiftKey'>): string | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  const parts: string[] = [];
+  if (isMac ? e.metaKey : e.ctrlKey) parts.push('Mod');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey) parts.push('Shift');
+  // e.code keeps letters and digits stable when Shift or Alt change e.key
+  const key = /^Key[A-Z]$/.test(e.code) ? e.code.slice(3) : /^Digit\d$/.test(e.code) ? e.code.slice(5) : e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toUpperCase() : e.key;
+  parts.push(key);
+  return parts.join('+');
+};
+
+export const formatShortcut = (shortcut: string) =>
+  shortcut
+    .split('+')
+    .map((part) => (part === 'Mod' ? (isMac ? '⌘' : 'Ctrl') : part === 'Shift' ? (isMac ? '⇧' : 'Shift') : part === 'Alt' ? (isMac ? '⌥' : 'Alt') : part))
+    .join(isMac ? '' : '+');
+
+// Shortcuts must never fire while the user is typing
+export const isTypingTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+export const findShortcutAction = (shortcuts: Record<ShortcutAction, string>, shortcut: string): ShortcutAction | undefined =>
+  SHORTCUT_ACTIONS.find((action) => shortcuts[action] === shortcut);
@@ -0,0 +1,311 @@
+import { AmbientLayer, AmbientSoundType } from '../types';
+
+/**
+ * Procedural ambient soundscapes. Each one is built from long noise beds whose
+ * playback rate, filters and levels wander slowly to random targets, plus
+ * randomly timed events (crackles, thunder, wave swells) scheduled in real
+ * time, so nothing repeats in a way the ear can pick up on.
+ */
+
+type NoiseColor = 'white' | 'pink' | 'brown';
+
+// Long enough that the loop point of a plain noise bed isn't noticeable
+const NOISE_SECONDS = 20;
+
+// Generated once per AudioContext and shared by every layer
+const noiseBuffers = new WeakMap<BaseAudioContext, Partial<Record<NoiseColor, AudioBuffer>>>();
+
+const createNoiseBuffer = (ctx: BaseAudioContext, color: NoiseColor) => {
+  const bufferSize = NOISE_SECONDS * ctx.sampleRate;
+  const buffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
+  const output = buffer.getChannelData(0);
+
+  if (color === 'white') {
+    for (let i = 0; i < bufferSize; i++) {
+      output[i] = Math.random() * 2 - 1;
+    }
+  } else if (color === 'pink') {
+    // Pink noise approximation
+    let b0, b1, b2, b3, b4, b5, b6;
+    b0 = b1 = b2 = b3 = b4 = b5 = b6 = 0.0;
+    for (let i = 0; i < bufferSize; i++) {
+      const white = Math.random() * 2 - 1;
+      b0 = 0.99886 * b0 + white * 0.0555179;
+      b1 = 0.99332 * b1 + white * 0.0750759;
+      b2 = 0.96900 * b2 + white * 0.1538520;
+      b3 = 0.86650 * b3 + white * 0.3104856;
+      b4 = 0.55000 * b4 + white * 0.5329522;
+      b5 = -0.7616 * b5 - white * 0.0168980;
+      output[i] = b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362;
+      output[i] *= 0.11;
+      b6 = white * 0.115926;
+    }
+  } else {
+    let lastOut = 0.0;
+    for (let i = 0; i < bufferSize; i++) {
+      const white = Math.random() * 2 - 1;
+      const out = (lastOut + (0.02 * white)) / 1.02;
+      output[i] = out * 3.5; // Gain compensation
+      lastOut = out;
+    }
+  }
+
+  return buffer;
+};
+
+const getNoiseBuffer = (ctx: BaseAudioContext, color: NoiseColor) => {
+  const buffers = noiseBuffers.get(ctx) ?? {};
+  noiseBuffers.set(ctx, buffers);
+  return (buffers[color] = buffers[color] ?? createNoiseBuffer(ctx, color));
+};
+
+const random = (min: number, max: number) => min + Math.random() * (max - min);
+
+// A running soundscape. `update` applies per-layer options such as the binaural beat.
+export interface Soundscape {
+  update: (layer: AmbientLayer) => void;
+  stop: () => void;
+}
+
+// Collects timers and nodes so a soundscape can be torn down in one call
+const createVoice = (ctx: AudioContext) => {
+  const timers = new Set<number>();
+  const sources: AudioScheduledSourceNode[] = [];
+  let stopped = false;
+
+  const later = (seconds: number, fn: () => void) => {
+    const id = window.setTimeout(() => {
+      timers.delete(id);
+      if (!stopped) fn();
+    }, seconds * 1000);
+    timers.add(id);
+  };
+
+  // Glides `param` to a new random value between min and max every few seconds
+  const wander = (param: AudioParam, min: number, max: number, minSeconds: number, maxSeconds: number) => {
+    const step = () => {
+      const seconds = random(minSeconds, maxSeconds);
+      param.setTargetAtTime(random(min, max), ctx.currentTime, seconds / 3);
+      later(seconds, step);
+    };
+    step();
+  };
+
+  // A looping noise bed, started at a random point and drifting in pitch so
+  // layers sharing a buffer never line up
+  const noise = (color: NoiseColor, output: AudioNode) => {
+    const source = ctx.createBufferSource();
+    source.buffer = getNoiseBuffer(ctx, color);
+    source.loop = true;
+    source.connect(output);
+    source.start(0, random(0, NOISE_SECONDS));
+    wander(source.playbackRate, 0.96, 1.04, 8, 20);
+    sources.push(source);
+    return source;
+  };
+
+  const filter = (type: BiquadFilterType, frequency: number, output: AudioNode, q = 1) => {
+    const node = ctx.createBiquadFilter();
+    node.type = type;
+    node.frequency.setValueAtTime(frequency, ctx.currentTime);
+    node.Q.setValueAtTime(q, ctx.currentTime);
+    node.connect(output);
+    return node;
+  };
+
+  const gain = (value: number, output: AudioNode) => {
+    const node = ctx.createGain();
+    node.gain.setValueAtTime(value, ctx.currentTime);
+    node.connect(output);
+    return node;
+  };
+
+  // One-off burst of noise shaped by an attack/decay envelope
+  const burst = (color: NoiseColor, output: AudioNode, at: number, peak: number, attack: number, decay: number) => {
+    const source = ctx.createBufferSource();
+    source.buffer = getNoiseBuffer(ctx, color);
+    const envelope = ctx.createGain();
+    envelope.gain.setValueAtTime(0, at);
+    envelope.gain.linearRampToValueAtTime(peak, at + attack);
+    envelope.gain.setTargetAtTime(0, at + attack, decay / 4);
+    source.connect(envelope);
+    envelope.connect(output);
+    source.start(at, random(0, NOISE_SECONDS - attack - decay - 1));
+    source.stop(at + attack + decay);
+    source.onended = () => envelope.disconnect();
+  };
+
+  // Calls `fn` again and again, a random number of seconds apart
+  const every = (minSeconds: number, maxSeconds: number, fn: () => void) => {
+    const step = () => {
+      fn();
+      later(random(minSeconds, maxSeconds), step);
+    };
+    later(random(minSeconds, maxSeconds), step);
+  };
+
+  const stop = () => {
+    stopped = true;
+    timers.forEach((id) => clearTimeout(id));
+    sources.forEach((source) => {
+      try {
+        source.stop();
+      } catch (e) {}
+    });
+  };
+
+  return { later, wander, noise, filter, gain, burst, every, sources, stop };
+};
+
+type SoundscapeFactory = (ctx: AudioContext, output: AudioNode, layer: AmbientLayer) => Soundscape;
+
+const simple = (build: (voice: ReturnType<typeof createVoice>, output: AudioNode) => void): SoundscapeFactory =>
+  (ctx, output) => {
+    const voice = createVoice(ctx);
+    build(voice, output);
+    return { update: () => {}, stop: voice.stop };
+  };
+
+export const BINAURAL_CARRIER_HZ = 200;
+
+export const BINAURAL_BEATS: { hz: number; label: string }[] = [
+  { hz: 2, label: 'Delta 2 Hz' },
+  { hz: 6, label: 'Theta 6 Hz' },
+  { hz: 10, label: 'Alpha 10 Hz' },
+  { hz: 14, label: 'Beta 14 Hz' },
+  { hz: 40, label: 'Gamma 40 Hz' },
+];
+
+export const DEFAULT_BINAURAL_BEAT_HZ = 10;
+
+const SOUNDSCAPES: Record<AmbientSoundType, SoundscapeFactory> = {
+  white: simple(({ noise, gain, wander }, output) => {
+    const level = gain(0.9, output);
+    noise('white', level);
+    wander(level.gain, 0.85, 1, 6, 14);
+  }),
+
+  rain: simple(({ noise, filter, gain, wander }, output) => {
+    const level = gain(1, output);
+    const lowpass = filter('lowpass', 800, level);
+    noise('pink', lowpass);
+    wander(lowpass.frequency, 650, 1300, 5, 15);
+    wander(level.gain, 0.75, 1, 4, 12);
+  }),
+
+  cafe: simple(({ noise, filter, gain, wander }, output) => {
+    const level = gain(1, output);
+    const lowpass = filter('lowpass', 400, level);
+    noise('brown', lowpass);
+    // A band of mid-range noise that rises and falls like voices across the room
+    const murmurLevel = gain(0.15, level);
+    const murmur = filter('bandpass', 500, murmurLevel, 0.8);
+    noise('pink', murmur);
+    wander(murmur.frequency, 350, 900, 2, 6);
+    wander(murmurLevel.gain, 0.05, 0.3, 2, 7);
+  }),
+
+  brown: simple(({ noise, filter, gain, wander }, output) => {
+    const level = gain(1, output);
+    const lowpass = filter('lowpass', 1000, level);
+    noise('brown', lowpass);
+    wander(lowpass.frequency, 700, 1200, 10, 25);
+  }),
+
+  ocean: (ctx, output) => {
+    const voice = createVoice(ctx);
+    const level = voice.gain(0.2, output);
+    const lowpass = voice.filter('lowpass', 400, level);
+    voice.noise('pink', lowpass);
+    voice.noise('brown', lowpass);
+
+    // Each wave builds, breaks brighter and louder, then drains back out
+    const wave = () => {
+      const now = ctx.currentTime;
+      const rise = random(2.5, 5);
+      const fall = random(3.5, 7);
+      const peak = random(0.7, 1);
+      level.gain.cancelScheduledValues(now);
+      level.gain.setTargetAtTime(peak, now, rise / 3);
+      level.gain.setTargetAtTime(random(0.12, 0.25), now + rise, fall / 3);
+      lowpass.frequency.cancelScheduledValues(now);
+      lowpass.frequency.setTargetAtTime(random(1200, 2200), now, rise / 3);
+      lowpass.frequency.setTargetAtTime(random(300, 500), now + rise, fall / 3);
+      voice.later(rise + fall + random(0, 2), wave);
+    };
+    wave();
+    return { update: () => {}, stop: voice.stop };
+  },
+
+  fire: (ctx, output) => {
+    const voice = createVoice(ctx);
+    const roar = voice.gain(0.6, output);
+    voice.noise('brown', voice.filter('lowpass', 300, roar));
+    voice.wander(roar.gain, 0.4, 0.8, 1.5, 5);
+
+    const crackles = voice.filter('bandpass', 3000, voice.gain(1, output), 1.5);
+    // Scheduled a little ahead so timer jitter doesn't bunch them up
+    const crackle = () => {
+      const at = ctx.currentTime + random(0.05, 0.2);
+      crackles.frequency.setValueAtTime(random(1500, 5000), at);
+      voice.burst('white', crackles, at, random(0.15, 0.8), 0.002, random(0.02, 0.08));
+    };
+    voice.every(0.04, 0.45, crackle);
+    // Now and then a bigger pop
+    voice.every(3, 10, () => voice.burst('white', crackles, ctx.currentTime + 0.05, 1.2, 0.003, 0.15));
+    return { update: () => {}, stop: voice.stop };
+  },
+
+  thunder: (ctx, output) => {
+    const voice = createVoice(ctx);
+    const rain = voice.gain(1, output);
+    const lowpass = voice.filter('lowpass', 1400, rain);
+    voice.noise('pink', lowpass);
+    voice.wander(lowpass.frequency, 1000, 2000, 4, 10);
+    voice.wander(rain.gain, 0.8, 1.1, 3, 8);
+
+    const rumble = voice.filter('lowpass', 200, output, 0.7);
+    const strike = () => {
+      const at = ctx.currentTime + 0.1;
+      rumble.frequency.setValueAtTime(random(120, 320), at);
+      voice.burst('brown', rumble, at, random(1.2, 2.5), random(0.3, 1.5), random(4, 9));
+    };
+    voice.later(random(5, 15), () => {
+      strike();
+      voice.every(20, 60, strike);
+    });
+    return { update: () => {}, stop: voice.stop };
+  },
+
+  // Two sine tones a few hertz apart, one per ear; only works on headphones
+  binaural: (ctx, output, layer) => {
+    const voice = createVoice(ctx);
+    const merger = ctx.createChannelMerger(2);
+    const level = voice.gain(0.25, output);
+    merger.connect(level);
+
+    const left = ctx.createOscillator();
+    const right = ctx.createOscillator();
+    const setBeat = (hz: number) => {
+      left.frequency.setTargetAtTime(BINAURAL_CARRIER_HZ, ctx.currentTime, 0.5);
+      right.frequency.setTargetAtTime(BINAURAL_CARRIER_HZ + hz, ctx.currentTime, 0.5);
+    };
+    left.frequency.value = BINAURAL_CARRIER_HZ;
+    right.frequency.value = BINAURAL_CARRIER_HZ + (layer.beatHz ?? DEFAULT_BINAURAL_BEAT_HZ);
+    left.connect(merger, 0, 0);
+    right.connect(merger, 0, 1);
+    left.start();
+    right.start();
+    voice.sources.push(left, right);
+    // A faint pink noise bed keeps the pure tones from sounding sterile
+    voice.noise('pink', voice.filter('lowpass', 600, voice.gain(0.3, output)));
+
+    return {
+      update: (next) => setBeat(next.beatHz ?? DEFAULT_BINAURAL_BEAT_HZ),
+      stop: voice.stop,
+    };
+  },
+};
+
+export const startSoundscape = (ctx: AudioContext, output: AudioNode, type: AmbientSoundType, layer: AmbientLayer): Soundscape =>
+  SOUNDSCAPES[type](ctx, output, layer);
@@ -0,0 +1,36 @@
+import { Goal, SessionRecord, UserStats } from '../types';
+import { HistoryChange, applyHistoryChange } from './history';
+import { withReflection } from './reflections';
+import { StatsOptions, appendSession, replaceSessions } from './sessions';
+
+/**
+ * A change to the stats, described rather than applied, so a tab that doesn't own
+ * the stats can send it to the one that does and have it applied on top of
+ * whatever that tab has recorded in the meantime.
+ */
+export type StatsChange =
+  | { type: 'append'; session: SessionRecord }
+  | { type: 'history'; change: HistoryChange }
+  | { type: 'reflect'; sessionId: string; note: string; rating: number | null }
+  | { type: 'goals'; goals: Goal[] }
+  | { type: 'replace'; stats: UserStats };
+
+export const applyStatsChange = (stats: UserStats, change: StatsChange, options: StatsOptions): UserStats => {
+  switch (change.type) {
+    case 'append':
+      return appendSession(stats, change.session, options);
+    case 'history':
+      return replaceSessions(stats, applyHistoryChange(stats.sessions, change.change), options);
+    case 'reflect':
+      return replaceSessions(
+        stats,
+        stats.sessions.map((s) => (s.id === change.sessionId ? withReflection(s, change.note, change.rating) : s)),
+        options
+      );
+    // Streaks judged by the goals are recomputed by the caller's refresh
+    case 'goals':
+      return { ...stats, goals: change.goals };
+    case 'replace':
+      return change.stats;
+  }
+};
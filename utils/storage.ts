@@ -1,140 +1,234 @@
+import { UserStats, AppSettings, TimerState, TaskList } from '../types';
+import { deriveStats, StatsOptions } from './sessions';
+import { createDefaultStats, DEFAULT_SETTINGS, isObject, migrate, Schema, SETTINGS_SCHEMA, STATS_SCHEMA, TASKS_SCHEMA } from './schema';
+import { createIndexedDBAdapter, createLocalStorageAdapter, createMemoryAdapter, moveLocalStorageData, StorageAdapter } from './storageAdapters';
 
-import { UserStats, AppSettings } from '../types';
+export { getDateKey } from './date';
 
 const STATS_KEY = 'focusforge_stats';
 const SETTINGS_KEY = 'focusforge_settings';
+const TIMER_KEY = 'focusforge_timer';
+const TASKS_KEY = 'focusforge_tasks';
+// Followed by the track id; one key per user-supplied ambient track
+const TRACK_KEY_PREFIX = 'focusforge_track_';
+
+let adapter: StorageAdapter = createLocalStorageAdapter();
+
+export const getStorageAdapter = () => adapter;
+
+export const setStorageAdapter = (next: StorageAdapter) => {
+  adapter = next;
+};
 
 /**
- * Returns a YYYY-MM-DD string in LOCAL time.
- * This is crucial for consistent tracking across timezones.
+ * Problems the user should hear about, such as data that had to be repaired.
+ * Messages raised before a reporter is set (i.e. while loading) are held and
+ * passed on as soon as one is.
  */
-export const getDateKey = (date: Date): string => {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
-};
-
-// Helper to generate a realistic-looking history for a returning user
-const generateMockHistory = () => {
-  const history: { [key: string]: number } = {};
-  const today = new Date();
-  // Varying session counts for the last 10 days to ensure bars look different
-  const mockCounts = [5, 2, 6, 3, 4, 1, 7, 3, 2, 5];
-  for (let i = 1; i <= 10; i++) {
-    const d = new Date();
-    d.setDate(today.getDate() - i);
-    const dateStr = getDateKey(d);
-    history[dateStr] = mockCounts[i - 1] || 2;
-  }
-  return history;
-};
-
-const mockHistory = generateMockHistory();
-const sessionsToday = 3;
-// Use only the last 6 entries from history for the week calculation
-const sessionsPast6Days = Object.values(mockHistory).slice(0, 6).reduce((a, b) => a + b, 0);
-const totalWeekSessions = sessionsToday + sessionsPast6Days;
-
-const DEFAULT_STATS: UserStats = {
-  todaySessions: sessionsToday,
-  weekSessions: totalWeekSessions,
-  dailyGoal: 4,
-  lastUpdate: new Date().toISOString(),
-  weekStartDate: new Date(Date.now() - 4 * 24 * 60 * 60 * 1000).toISOString(),
-  totalMinutesToday: sessionsToday * 25,
-  totalMinutesWeek: totalWeekSessions * 25,
-  longestStreak: 12,
-  currentStreak: 5,
-  history: mockHistory,
-};
-
-const DEFAULT_SETTINGS: AppSettings = {
-  darkMode: false,
-  ambientSound: false,
-  ambientSoundType: 'rain',
-  ambientVolume: 0.5,
-  focusDuration: 25,
-  breakDuration: 5,
-};
-
-export const getStats = (): UserStats => {
-  const stored = localStorage.getItem(STATS_KEY);
-  let stats: UserStats;
-
-  if (!stored) {
-    stats = { ...DEFAULT_STATS };
-    saveStats(stats);
-  } else {
+type IssueReporter = (message: string) => void;
+
+const pendingIssues: string[] = [];
+let reportIssue: IssueReporter = (message) => { pendingIssues.push(message); };
+
+export const setIssueReporter = (reporter: IssueReporter) => {
+  reportIssue = reporter;
+  pendingIssues.splice(0).forEach(reporter);
+};
+
+// Keys holding data from a newer version of the app; they are read but never overwritten
+const readOnlyKeys = new Set<string>();
+
+/**
+ * Picks the best available backend: IndexedDB, falling back to localStorage
+ * (e.g. private windows that refuse IndexedDB) and finally to memory.
+ * On the first IndexedDB run, existing localStorage data is moved across.
+ */
+export const initStorage = async (): Promise<StorageAdapter> => {
+  let refusedIndexedDB = false;
+  if (typeof indexedDB !== 'undefined') {
+    const idb = createIndexedDBAdapter();
     try {
-      stats = JSON.parse(stored);
-      // Migration: If user has stale data without history, inject mock data so bars are visible
-      if (!stats.history || Object.keys(stats.history).length === 0) {
-        stats.history = generateMockHistory();
-        // Recalculate streaks/totals based on new mock data for consistency
-        stats.currentStreak = 5;
-        stats.longestStreak = Math.max(stats.longestStreak, 12);
-        saveStats(stats);
-      }
+      await idb.keys();
+      await moveLocalStorageData(idb);
+      setStorageAdapter(idb);
+      return idb;
     } catch (e) {
-      stats = { ...DEFAULT_STATS };
-      saveStats(stats);
+      refusedIndexedDB = true;
     }
   }
-  
-  const now = new Date();
-  const todayStr = getDateKey(now);
-  const lastUpdateDate = new Date(stats.lastUpdate);
-  const lastUpdateStr = getDateKey(lastUpdateDate);
-
-  // Daily Reset and Streak Logic
-  if (todayStr !== lastUpdateStr) {
-    // Save yesterday's count into history
-    stats.history[lastUpdateStr] = stats.todaySessions;
-
-    const diffTime = Math.abs(now.getTime() - lastUpdateDate.getTime());
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-    if (diffDays <= 1) {
-      if (stats.todaySessions > 0) {
-        stats.currentStreak += 1;
-      }
-    } else {
-      stats.currentStreak = 0;
-    }
+  try {
+    localStorage.getItem(STATS_KEY);
+    setStorageAdapter(createLocalStorageAdapter());
+    if (refusedIndexedDB) reportIssue('This browser refused IndexedDB, so data is kept in localStorage, which has less room.');
+  } catch (e) {
+    setStorageAdapter(createMemoryAdapter());
+  }
+  return adapter;
+};
 
-    if (stats.currentStreak > stats.longestStreak) {
-      stats.longestStreak = stats.currentStreak;
-    }
+/**
+ * Keeps an untouched copy of a blob we couldn't load as-is, so a bad write or a
+ * bug in a migration never destroys the user's data.
+ */
+const quarantine = async (key: string, raw: string, reason: string) => {
+  const quarantineKey = `${key}_quarantine_${Date.now()}`;
+  try {
+    await adapter.setItem(quarantineKey, raw);
+  } catch (e) {
+    // Storage is full; nothing more we can do than report it
+  }
+  reportIssue(`Saved data (${key}) ${reason}. The original was kept under "${quarantineKey}".`);
+};
+
+const writeVersioned = async <T>(key: string, schema: Schema<T>, value: T): Promise<void> => {
+  if (readOnlyKeys.has(key)) return;
+  await adapter.setItem(key, JSON.stringify({ schemaVersion: schema.version, data: value }));
+};
+
+/**
+ * Loads, migrates and validates a stored blob. Returns null when nothing usable
+ * is stored, in which case the caller starts from defaults.
+ */
+const readVersioned = async <T>(key: string, schema: Schema<T>): Promise<T | null> => {
+  const stored = await adapter.getItem(key);
+  if (!stored) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stored);
+  } catch (e) {
+    await quarantine(key, stored, 'could not be parsed');
+    return null;
+  }
+
+  let version = 0;
+  let data: unknown = parsed;
+  if (isObject(parsed) && typeof parsed.schemaVersion === 'number' && 'data' in parsed) {
+    version = parsed.schemaVersion;
+    data = parsed.data;
+  }
 
-    stats.todaySessions = 0;
-    stats.totalMinutesToday = 0;
-    stats.lastUpdate = now.toISOString();
-    saveStats(stats);
+  // A newer version's data can't be migrated down. Show what can be read and leave the
+  // stored copy alone, so going back to the newer version loses nothing.
+  if (version > schema.version) {
+    readOnlyKeys.add(key);
+    reportIssue('Your data was saved by a newer version of FocusForge. Changes made here won\'t be saved until the app updates.');
+    return schema.validate(data)?.value ?? null;
   }
 
-  // Weekly Reset
-  const weekStart = new Date(stats.weekStartDate);
-  const diffWeekDays = Math.floor((now.getTime() - weekStart.getTime()) / (1000 * 60 * 60 * 24));
-  if (diffWeekDays >= 7) {
-    stats.weekSessions = 0;
-    stats.totalMinutesWeek = 0;
-    stats.weekStartDate = now.toISOString();
-    saveStats(stats);
+  try {
+    data = migrate(schema, data, version);
+  } catch (e) {
+    await quarantine(key, stored, `failed to migrate from schema ${version}`);
+    return null;
   }
 
+  const result = schema.validate(data);
+  if (!result) {
+    await quarantine(key, stored, 'has an unrecognised shape');
+    return null;
+  }
+  if (result.issues.length > 0) {
+    await quarantine(key, stored, `had invalid fields (${result.issues.join(', ')}) that were repaired`);
+  }
+  // Writing the upgraded copy back is best-effort; the next save stores it anyway
+  if (version !== schema.version || result.issues.length > 0) {
+    await writeVersioned(key, schema, result.value).catch(() => {});
+  }
+  return result.value;
+};
+
+export const getStats = async (options: StatsOptions): Promise<UserStats> => {
+  let stats = (await readVersioned(STATS_KEY, STATS_SCHEMA)) ?? createDefaultStats();
+  const now = new Date();
+
+  // Today/week totals and streaks are always recomputed from the log, so a date
+  // or week rollover needs no special handling
+  stats = deriveStats({ ...stats, lastUpdate: now.toISOString() }, options, now);
+  await saveStats(stats).catch(() => {});
+
   return stats;
 };
 
-export const saveStats = (stats: UserStats) => {
-  localStorage.setItem(STATS_KEY, JSON.stringify(stats));
+export const saveStats = (stats: UserStats): Promise<void> => {
+  return writeVersioned(STATS_KEY, STATS_SCHEMA, stats);
+};
+
+export const getSettings = async (): Promise<AppSettings> => {
+  return (await readVersioned(SETTINGS_KEY, SETTINGS_SCHEMA)) ?? { ...DEFAULT_SETTINGS };
+};
+
+export const saveSettings = (settings: AppSettings): Promise<void> => {
+  return writeVersioned(SETTINGS_KEY, SETTINGS_SCHEMA, settings);
+};
+
+export const getTimerState = async (): Promise<TimerState | null> => {
+  const stored = await adapter.getItem(TIMER_KEY);
+  if (!stored) return null;
+  try {
+    return { cycleCount: 0, interruptions: [], ...JSON.parse(stored) };
+  } catch (e) {
+    return null;
+  }
 };
 
-export const getSettings = (): AppSettings => {
-  const stored = localStorage.getItem(SETTINGS_KEY);
-  return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+export const saveTimerState = (timer: TimerState): Promise<void> => {
+  return adapter.setItem(TIMER_KEY, JSON.stringify(timer));
+};
+
+export const getTasks = async (): Promise<TaskList> => {
+  return (await readVersioned(TASKS_KEY, TASKS_SCHEMA)) ?? { tasks: [], activeTaskId: null };
+};
+
+export const saveTasks = (taskList: TaskList): Promise<void> => {
+  return writeVersioned(TASKS_KEY, TASKS_SCHEMA, taskList);
+};
+
+// Audio files are stored as they are, which only backends with binary storage can hold
+export const canStoreAmbientTracks = () => adapter.setBinary !== undefined;
+
+export const getAmbientTrack = async (id: string): Promise<ArrayBuffer | null> =>
+  adapter.getBinary ? adapter.getBinary(TRACK_KEY_PREFIX + id) : null;
+
+// Rejects (e.g. when storage is full), so callers can tell the user
+export const saveAmbientTrack = async (id: string, data: ArrayBuffer): Promise<void> => {
+  if (!adapter.setBinary) throw new Error(`The ${adapter.name} backend can't store audio files.`);
+  await adapter.setBinary(TRACK_KEY_PREFIX + id, data);
+};
+
+// Audio younger than this is left alone: another tab's settings may not have applied it yet
+const TRACK_PRUNE_GRACE_MS = 24 * 60 * 60 * 1000;
+
+// Track ids come from createId, which starts with the creation time in base 36
+const getTrackAddedAt = (id: string) => parseInt(id.split('-')[0], 36);
+
+/**
+ * Removes stored audio that no track in settings refers to any more, such as a
+ * track deleted from the mixer or one added without applying the settings.
+ */
+const pruneAmbientTracks = async (settings: AppSettings, now: number = Date.now()) => {
+  const ids = new Set(settings.ambientTracks.map((track) => track.id));
+  const unused = (await adapter.keys())
+    .filter((key) => key.startsWith(TRACK_KEY_PREFIX))
+    .filter((key) => {
+      const id = key.slice(TRACK_KEY_PREFIX.length);
+      const isRecent = now - getTrackAddedAt(id) < TRACK_PRUNE_GRACE_MS; // false when the id carries no time
+      return !ids.has(id) && !isRecent;
+    });
+  await Promise.all(unused.map((key) => adapter.removeItem(key)));
 };
 
-export const saveSettings = (settings: AppSettings) => {
-  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+export interface AppData {
+  stats: UserStats;
+  settings: AppSettings;
+  tasks: TaskList;
+  timer: TimerState | null;
+}
+
+export const getAppData = async (): Promise<AppData> => {
+  const settings = await getSettings();
+  const [stats, tasks, timer] = await Promise.all([getStats(settings), getTasks(), getTimerState()]);
+  // Housekeeping only, so it neither delays startup nor fails it
+  pruneAmbientTracks(settings).catch(() => {});
+  return { stats, settings, tasks, timer };
 };
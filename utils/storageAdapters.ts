@@ -0,0 +1,107 @@
+/**
+ * Key/value backends for persisted data. Values are the JSON strings produced
+ * by storage.ts, so every adapter behaves exactly like localStorage did.
+ * Backends that can hold large binary values (audio files) also offer the
+ * `*Binary` methods; localStorage can't, so it leaves them out.
+ */
+export interface StorageAdapter {
+  name: string;
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+  keys: () => Promise<string[]>;
+  getBinary?: (key: string) => Promise<ArrayBuffer | null>;
+  setBinary?: (key: string, value: ArrayBuffer) => Promise<void>;
+}
+
+export const createLocalStorageAdapter = (): StorageAdapter => ({
+  name: 'localStorage',
+  getItem: async (key) => localStorage.getItem(key),
+  setItem: async (key, value) => localStorage.setItem(key, value),
+  removeItem: async (key) => localStorage.removeItem(key),
+  keys: async () => Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i)!),
+});
+
+// Mainly for tests, and as a last resort when no persistent storage is available
+export const createMemoryAdapter = (initial: { [key: string]: string } = {}): StorageAdapter => {
+  const data = new Map<string, string | ArrayBuffer>(Object.entries(initial));
+  return {
+    name: 'memory',
+    getItem: async (key) => {
+      const value = data.get(key);
+      return typeof value === 'string' ? value : null;
+    },
+    setItem: async (key, value) => { data.set(key, value); },
+    removeItem: async (key) => { data.delete(key); },
+    keys: async () => Array.from(data.keys()),
+    getBinary: async (key) => {
+      const value = data.get(key);
+      return value instanceof ArrayBuffer ? value : null;
+    },
+    setBinary: async (key, value) => { data.set(key, value); },
+  };
+};
+
+export const createIndexedDBAdapter = (dbName: string = 'focusforge', storeName: string = 'kv'): StorageAdapter => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let a later call retry instead of caching the failure forever
+      dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await open();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(storeName, mode);
+      const request = action(tx.objectStore(storeName));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  };
+
+  return {
+    name: 'indexedDB',
+    getItem: async (key) => {
+      const value = await run('readonly', (store) => store.get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    setItem: async (key, value) => { await run('readwrite', (store) => store.put(value, key)); },
+    removeItem: async (key) => { await run('readwrite', (store) => store.delete(key)); },
+    keys: async () => (await run('readonly', (store) => store.getAllKeys())).map(String),
+    getBinary: async (key) => {
+      const value = await run('readonly', (store) => store.get(key));
+      return value instanceof ArrayBuffer ? value : null;
+    },
+    setBinary: async (key, value) => { await run('readwrite', (store) => store.put(value, key)); },
+  };
+};
+
+/**
+ * One-time move of existing FocusForge keys from localStorage into another
+ * adapter. Keys already present in the target win, and a localStorage key is
+ * only removed once its copy has been written.
+ */
+export const moveLocalStorageData = async (target: StorageAdapter, prefix: string = 'focusforge_') => {
+  const existing = new Set(await target.keys());
+  const keys = Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i)!)
+    .filter((key) => key.startsWith(prefix));
+
+  for (const key of keys) {
+    const value = localStorage.getItem(key);
+    if (value !== null && !existing.has(key)) {
+      await target.setItem(key, value);
+    }
+    localStorage.removeItem(key);
+  }
+};
@@ -0,0 +1,63 @@
+import { TimerMode, TimerState } from '../types';
+import { formatTimerDisplay, MODE_LABELS } from './timer';
+
+export const APP_TITLE = 'FocusForge - Minimalist Pomodoro';
+
+// Hex equivalents of the Tailwind stroke colours on the Timer's progress ring
+export const MODE_COLORS: Record<TimerMode, string> = {
+  focus: '#f43f5e',
+  break: '#14b8a6',
+  longBreak: '#6366f1',
+};
+
+export const getTabTitle = (timer: TimerState, timeLeft: number, overtimeSeconds: number): string => {
+  if (timer.status === 'idle') return APP_TITLE;
+  const paused = timer.status === 'paused' ? '⏸ ' : '';
+  return `${paused}${formatTimerDisplay(timer.plannedSeconds, timeLeft, overtimeSeconds)} · ${MODE_LABELS[timer.mode]} | FocusForge`;
+};
+
+const FAVICON_SIZE = 64;
+let canvas: HTMLCanvasElement | null = null;
+
+/**
+ * Draws the progress ring into the page favicon. `progress` runs from 0 to 1;
+ * callers should round it so the icon isn't redrawn on every tick.
+ */
+export const drawProgressFavicon = (progress: number, mode: TimerMode) => {
+  canvas = canvas ?? document.createElement('canvas');
+  canvas.width = canvas.height = FAVICON_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  const center = FAVICON_SIZE / 2;
+  const radius = center - 6;
+  ctx.clearRect(0, 0, FAVICON_SIZE, FAVICON_SIZE);
+  ctx.lineWidth = 10;
+  ctx.lineCap = 'round';
+
+  ctx.strokeStyle = 'rgba(148, 163, 184, 0.35)';
+  ctx.beginPath();
+  ctx.arc(center, center, radius, 0, 2 * Math.PI);
+  ctx.stroke();
+
+  ctx.strokeStyle = MODE_COLORS[mode];
+  ctx.beginPath();
+  if (progress > 0) {
+    ctx.arc(center, center, radius, -Math.PI / 2, -Math.PI / 2 + Math.min(1, progress) * 2 * Math.PI);
+    ctx.stroke();
+  } else {
+    // An untouched timer still shows its mode colour as a dot at twelve o'clock
+    ctx.arc(center, center - radius, 5, 0, 2 * Math.PI);
+    ctx.fillStyle = MODE_COLORS[mode];
+    ctx.fill();
+  }
+
+  let link = document.querySelector<HTMLLinkElement>('link[rel="icon"]');
+  if (!link) {
+    link = document.createElement('link');
+    link.rel = 'icon';
+    document.head.appendChild(link);
+  }
+  link.type = 'image/png';
+  link.href = canvas.toDataURL('image/png');
+};
@@ -0,0 +1,185 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppSettings, TaskList, TimerState, UserStats } from '../types';
+import { createId } from './sessions';
+import { StatsChange } from './statsChanges';
+
+export type SyncMessage =
+  | { type: 'stats'; stats: UserStats }
+  | { type: 'statsChange'; change: StatsChange }
+  | { type: 'settings'; settings: AppSettings }
+  | { type: 'tasks'; taskList: TaskList }
+  | { type: 'timer'; timer: TimerState }
+  | { type: 'hello' }
+  | { type: 'claim'; at: number }
+  | { type: 'heartbeat' }
+  | { type: 'release' };
+
+type Envelope = SyncMessage & { from: string };
+
+interface TabChannel {
+  post: (message: SyncMessage) => void;
+  close: () => void;
+}
+
+const CHANNEL_NAME = 'focusforge';
+// Deliberately outside the `focusforge_` prefix so it is never moved into IndexedDB
+const STORAGE_EVENT_KEY = 'focusforge:sync';
+
+const HELLO_WAIT_MS = 600;
+const HEARTBEAT_MS = 2000;
+const OWNER_TIMEOUT_MS = 5000;
+
+/**
+ * Messages to every other open tab: BroadcastChannel where supported, otherwise
+ * `storage` events, which fire in all other same-origin tabs when a key changes.
+ */
+const createTabChannel = (tabId: string, onMessage: (message: Envelope) => void): TabChannel => {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (e: MessageEvent<Envelope>) => onMessage(e.data);
+    return {
+      post: (message) => channel.postMessage({ ...message, from: tabId }),
+      close: () => channel.close(),
+    };
+  }
+
+  const listener = (e: StorageEvent) => {
+    if (e.key !== STORAGE_EVENT_KEY || !e.newValue) return;
+    try {
+      onMessage(JSON.parse(e.newValue).message);
+    } catch (err) {}
+  };
+  window.addEventListener('storage', listener);
+  return {
+    // The nonce makes repeated identical messages still count as a change
+    post: (message) => localStorage.setItem(STORAGE_EVENT_KEY, JSON.stringify({ message: { ...message, from: tabId }, nonce: Math.random() })),
+    close: () => window.removeEventListener('storage', listener),
+  };
+};
+
+interface Claim {
+  tabId: string;
+  at: number;
+}
+
+// Newer claims win; simultaneous ones are settled by tab id so every tab agrees
+const outranks = (a: Claim, b: Claim | null) => !b || a.at > b.at || (a.at === b.at && a.tabId < b.tabId);
+
+export interface TabSyncHandlers {
+  onStats: (stats: UserStats) => void;
+  // Called on the owner only, with a change made in another tab
+  onStatsChange: (change: StatsChange) => void;
+  onSettings: (settings: AppSettings) => void;
+  onTasks: (taskList: TaskList) => void;
+  onTimer: (timer: TimerState) => void;
+  // Called on the timer owner when a new tab opens, to bring it up to date
+  onPeerJoined: () => void;
+}
+
+/**
+ * Keeps open tabs in step. Data changes are broadcast with `post`; exactly one
+ * tab owns the timer and is the only one allowed to complete sessions, while
+ * the others mirror its countdown. Interacting with the timer in any tab moves
+ * ownership there, and if the owner goes away another tab takes over.
+ *
+ * The owner is also the only tab that writes stats: the others send it their
+ * changes as `statsChange` messages and take the result from its broadcast, so
+ * sessions logged in two tabs at once are both kept.
+ */
+export const useTabSync = (handlers: TabSyncHandlers) => {
+  const [tabId] = useState(createId);
+  const [isOwner, setIsOwner] = useState(false);
+  const handlersRef = useRef(handlers);
+  const channelRef = useRef<TabChannel | null>(null);
+  const ownerRef = useRef<Claim | null>(null);
+  const lastOwnerSeenRef = useRef(Date.now());
+
+  handlersRef.current = handlers;
+
+  const setOwner = useCallback((claim: Claim | null) => {
+    ownerRef.current = claim;
+    lastOwnerSeenRef.current = Date.now();
+    setIsOwner(claim?.tabId === tabId);
+  }, [tabId]);
+
+  const claimOwnership = useCallback(() => {
+    if (ownerRef.current?.tabId === tabId) return;
+    const claim = { tabId, at: Date.now() };
+    setOwner(claim);
+    channelRef.current?.post({ type: 'claim', at: claim.at });
+  }, [tabId, setOwner]);
+
+  const post = useCallback((message: SyncMessage) => {
+    channelRef.current?.post(message);
+  }, []);
+
+  // Unlike `isOwner`, already true right after `claimOwnership` in the same event
+  const ownsNow = useCallback(() => ownerRef.current?.tabId === tabId, [tabId]);
+
+  useEffect(() => {
+    const isSelfOwner = () => ownerRef.current?.tabId === tabId;
+
+    const channel = createTabChannel(tabId, (message) => {
+      switch (message.type) {
+        case 'stats': handlersRef.current.onStats(message.stats); break;
+        case 'statsChange':
+          if (isSelfOwner()) handlersRef.current.onStatsChange(message.change);
+          break;
+        case 'settings': handlersRef.current.onSettings(message.settings); break;
+        case 'tasks': handlersRef.current.onTasks(message.taskList); break;
+        case 'timer': handlersRef.current.onTimer(message.timer); break;
+        case 'hello':
+          if (isSelfOwner()) {
+            channel.post({ type: 'claim', at: ownerRef.current!.at });
+            handlersRef.current.onPeerJoined();
+          }
+          break;
+        case 'claim': {
+          const incoming = { tabId: message.from, at: message.at };
+          if (outranks(incoming, ownerRef.current)) setOwner(incoming);
+          else if (isSelfOwner()) channel.post({ type: 'claim', at: ownerRef.current!.at });
+          break;
+        }
+        case 'heartbeat':
+          if (message.from === ownerRef.current?.tabId) lastOwnerSeenRef.current = Date.now();
+          break;
+        case 'release':
+          if (message.from === ownerRef.current?.tabId) {
+            ownerRef.current = null;
+            claimOwnership();
+          }
+          break;
+      }
+    });
+    channelRef.current = channel;
+    channel.post({ type: 'hello' });
+
+    // Nobody answered the hello: this is the only tab
+    const helloTimeout = window.setTimeout(() => {
+      if (!ownerRef.current) claimOwnership();
+    }, HELLO_WAIT_MS);
+
+    const heartbeat = window.setInterval(() => {
+      if (isSelfOwner()) channel.post({ type: 'heartbeat' });
+      else if (Date.now() - lastOwnerSeenRef.current > OWNER_TIMEOUT_MS) claimOwnership();
+    }, HEARTBEAT_MS);
+
+    const release = () => {
+      if (isSelfOwner()) channel.post({ type: 'release' });
+    };
+    window.addEventListener('pagehide', release);
+
+    return () => {
+      clearTimeout(helloTimeout);
+      clearInterval(heartbeat);
+      window.removeEventListener('pagehide', release);
+      release();
+      ownerRef.current = null;
+      setIsOwner(false);
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [tabId, setOwner, claimOwnership]);
+
+  return { isOwner, ownsNow, claimOwnership, post };
+};
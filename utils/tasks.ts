@@ -0,0 +1,55 @@
+import { SessionRecord, Task } from '../types';
+import { createId, isCountedSession } from './sessions';
+
+export const createTask = (title: string, project: string | null, estimatedPomodoros: number): Task => ({
+  id: createId(),
+  title: title.trim(),
+  project: project && project.trim() ? project.trim() : null,
+  estimatedPomodoros: Math.max(1, Math.round(estimatedPomodoros)),
+  done: false,
+  createdAt: new Date().toISOString(),
+});
+
+export const getProjects = (tasks: Task[]): string[] =>
+  Array.from(new Set(tasks.map((t) => t.project).filter((p): p is string => !!p))).sort();
+
+export const countTaskSessions = (sessions: SessionRecord[], taskId: string): number =>
+  sessions.filter((s) => isCountedSession(s) && s.taskId === taskId).length;
+
+export interface BreakdownRow {
+  key: string;
+  label: string;
+  sessions: number;
+  minutes: number;
+}
+
+const sortRows = (rows: { [key: string]: BreakdownRow }) =>
+  Object.values(rows).sort((a, b) => b.minutes - a.minutes || b.sessions - a.sessions);
+
+/**
+ * Groups counted sessions by task and by project. Sessions without a task land
+ * in an "Unassigned" row so the totals always add up to the whole period.
+ */
+export const getTaskBreakdown = (sessions: SessionRecord[], tasks: Task[]) => {
+  const taskById = new Map(tasks.map((t) => [t.id, t] as const));
+  const byTask: { [key: string]: BreakdownRow } = {};
+  const byProject: { [key: string]: BreakdownRow } = {};
+
+  const add = (rows: { [key: string]: BreakdownRow }, key: string, label: string, session: SessionRecord) => {
+    const row = rows[key] || (rows[key] = { key, label, sessions: 0, minutes: 0 });
+    row.sessions += 1;
+    row.minutes += session.actualSeconds / 60;
+  };
+
+  sessions.filter(isCountedSession).forEach((s) => {
+    const task = s.taskId ? taskById.get(s.taskId) : undefined;
+    const taskKey = s.taskId ? (task ? task.id : 'removed') : 'unassigned';
+    const taskLabel = task ? task.title : s.taskId ? 'Removed task' : 'Unassigned';
+    add(byTask, taskKey, taskLabel, s);
+    const project = task?.project ?? null;
+    add(byProject, project ?? 'none', project ?? 'No project', s);
+  });
+
+  const round = (rows: BreakdownRow[]) => rows.map((r) => ({ ...r, minutes: Math.round(r.minutes) }));
+  return { byTask: round(sortRows(byTask)), byProject: round(sortRows(byProject)) };
+};
@@ -0,0 +1,136 @@
+import { AppSettings, Interruption, InterruptionSource, TimerMode, TimerState } from '../types';
+
+// Flowtime focus has no set length: it starts at zero and only counts up
+export const getModeDuration = (settings: AppSettings, mode: TimerMode): number => {
+  if (mode === 'focus') return settings.flowtime ? 0 : settings.focusDuration * 60;
+  if (mode === 'longBreak') return settings.longBreakDuration * 60;
+  return settings.breakDuration * 60;
+};
+
+export const MODE_LABELS: Record<TimerMode, string> = {
+  focus: 'Focus',
+  break: 'Break',
+  longBreak: 'Long Break',
+};
+
+export const formatCountdown = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+// The timer face: the countdown, then the time past zero. Flowtime only counts up.
+export const formatTimerDisplay = (plannedSeconds: number, timeLeft: number, overtimeSeconds: number) => {
+  if (plannedSeconds === 0) return formatCountdown(overtimeSeconds);
+  return overtimeSeconds > 0 ? `+${formatCountdown(overtimeSeconds)}` : formatCountdown(timeLeft);
+};
+
+export const createIdleTimer = (mode: TimerMode, durationSeconds: number, cycleCount: number = 0): TimerState => ({
+  mode,
+  status: 'idle',
+  endsAt: null,
+  remainingSeconds: durationSeconds,
+  plannedSeconds: durationSeconds,
+  sessionStartedAt: null,
+  cycleCount,
+  interruptions: [],
+});
+
+/**
+ * Works out the phase that follows a completed one: every `longBreakInterval`
+ * focus sessions earn a long break, which in turn starts a fresh cycle.
+ */
+export const getNextPhase = (settings: AppSettings, timer: TimerState): { mode: TimerMode; cycleCount: number } => {
+  if (timer.mode === 'focus') {
+    const cycleCount = timer.cycleCount + 1;
+    return { mode: cycleCount >= settings.longBreakInterval ? 'longBreak' : 'break', cycleCount };
+  }
+  return { mode: 'focus', cycleCount: timer.mode === 'longBreak' ? 0 : timer.cycleCount };
+};
+
+// Focus sessions that keep counting past zero until the user finishes them. A Flowtime
+// session has no planned length, so it stays open-ended if Flowtime is switched off midway.
+export const isOpenEnded = (settings: AppSettings, timer: TimerState): boolean =>
+  timer.mode === 'focus' && (settings.flowtime || settings.focusOvertime || timer.plannedSeconds === 0);
+
+// Strict mode only guards a focus session once it has started
+export const isStrictSession = (settings: AppSettings, timer: TimerState): boolean =>
+  settings.strictMode && timer.mode === 'focus' && timer.sessionStartedAt !== null;
+
+export const getPausesLeft = (settings: AppSettings, timer: TimerState): number =>
+  Math.max(0, settings.strictMaxPauses - timer.interruptions.filter((i) => i.kind === 'pause').length);
+
+// A Flowtime break is a share of the focus session before it, rounded to whole minutes
+export const getFlowtimeBreakSeconds = (settings: AppSettings, focusSeconds: number): number =>
+  Math.max(60, Math.round(focusSeconds / settings.flowtimeBreakRatio / 60) * 60);
+
+export const shouldAutoStart = (settings: AppSettings, mode: TimerMode): boolean =>
+  mode === 'focus' ? settings.autoStartFocus : settings.autoStartBreaks;
+
+/**
+ * Remaining time is always recomputed from the wall clock while running, so
+ * throttled intervals in background tabs can't make a session run long. Goes
+ * negative once a session runs into overtime.
+ */
+const getSignedRemaining = (timer: TimerState, now: number): number => {
+  if (timer.status !== 'running' || timer.endsAt === null) return timer.remainingSeconds;
+  // A stale `now` from before the timer was started must not show more than was left
+  return Math.min(timer.remainingSeconds, Math.ceil((timer.endsAt - now) / 1000));
+};
+
+export const getRemainingSeconds = (timer: TimerState, now: number = Date.now()): number =>
+  Math.max(0, getSignedRemaining(timer, now));
+
+export const getOvertimeSeconds = (timer: TimerState, now: number = Date.now()): number =>
+  Math.max(0, -getSignedRemaining(timer, now));
+
+// Time the session has actually run, overtime included
+export const getElapsedSeconds = (timer: TimerState, now: number = Date.now()): number =>
+  timer.plannedSeconds - getSignedRemaining(timer, now);
+
+export const startTimer = (timer: TimerState, now: number = Date.now()): TimerState => {
+  if (timer.status === 'running') return timer;
+  return {
+    ...timer,
+    status: 'running',
+    endsAt: now + timer.remainingSeconds * 1000,
+    sessionStartedAt: timer.sessionStartedAt ?? new Date(now).toISOString(),
+  };
+};
+
+// Pausing a focus session counts as an interruption; its cause is asked for afterwards
+export const pauseTimer = (timer: TimerState, now: number = Date.now(), reason?: string): TimerState => {
+  if (timer.status !== 'running') return timer;
+  const paused: TimerState = {
+    ...timer,
+    status: 'paused',
+    endsAt: null,
+    remainingSeconds: getSignedRemaining(timer, now),
+  };
+  return timer.mode === 'focus' ? logInterruption(paused, 'pause', null, now, reason) : paused;
+};
+
+export const logInterruption = (
+  timer: TimerState,
+  kind: Interruption['kind'],
+  source: InterruptionSource | null,
+  now: number = Date.now(),
+  reason?: string
+): TimerState => ({
+  ...timer,
+  interruptions: [...timer.interruptions, { at: new Date(now).toISOString(), kind, source, ...(reason ? { reason } : {}) }],
+});
+
+// The pause the user is being asked about, if the session is paused and it has no cause yet
+export const getUnexplainedPause = (timer: TimerState): Interruption | null => {
+  const last = timer.interruptions[timer.interruptions.length - 1];
+  return timer.status === 'paused' && last?.kind === 'pause' && last.source === null ? last : null;
+};
+
+export const explainPause = (timer: TimerState, source: InterruptionSource): TimerState =>
+  getUnexplainedPause(timer)
+    ? { ...timer, interruptions: timer.interruptions.map((item, i) => (i === timer.interruptions.length - 1 ? { ...item, source } : item)) }
+    : timer;
+
+export const isTimerFinished = (timer: TimerState, now: number = Date.now()): boolean =>
+  timer.status === 'running' && getRemainingSeconds(timer, now) === 0;
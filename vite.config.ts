@@ -1,6 +1,51 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import crypto from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import tailwindcss from '@tailwindcss/vite';
+
+const SW_SOURCE = path.resolve(__dirname, 'sw.js');
+
+const listFiles = (dir: string, base: string = dir): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const full = path.join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(full, base) : [path.relative(base, full).split(path.sep).join('/')];
+  });
+
+/**
+ * Writes `sw.js` into the build with the precache list filled in: every output
+ * file, styles and fonts included. The version is a hash of the output, so a
+ * changed build is always picked up as an update.
+ */
+const serviceWorker = (): Plugin => {
+  let outDir = '';
+  let isBuild = false;
+  const render = (precache: { version: string; files: string[] } | null) =>
+    fs.readFileSync(SW_SOURCE, 'utf-8').replace('self.__PRECACHE__', precache ? JSON.stringify(precache) : 'null');
+
+  return {
+    name: 'focusforge-service-worker',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+      isBuild = config.command === 'build';
+    },
+    // The dev server serves the worker without a precache, so it only handles notifications
+    configureServer(server) {
+      server.middlewares.use('/sw.js', (_req, res) => {
+        res.setHeader('Content-Type', 'application/javascript');
+        res.end(render(null));
+      });
+    },
+    closeBundle() {
+      if (!isBuild) return;
+      const files = listFiles(outDir).filter((file) => file !== 'sw.js' && !file.endsWith('.map'));
+      const hash = crypto.createHash('sha256');
+      files.forEach((file) => hash.update(file).update(fs.readFileSync(path.join(outDir, file))));
+      fs.writeFileSync(path.join(outDir, 'sw.js'), render({ version: hash.digest('hex').slice(0, 12), files }));
+    },
+  };
+};
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +54,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), tailwindcss(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)